@@ -0,0 +1,144 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { ko, enUS } from "date-fns/locale";
+import { useTranslation } from "react-i18next";
+import { ExternalLink, Bookmark, BookmarkCheck, Layers, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import type { ArticleWithStory, RelatedArticles } from "@shared/schema";
+
+interface ArticleDetailDrawerProps {
+  article: ArticleWithStory | null; // null = closed
+  onClose: () => void;
+  isBookmarked?: boolean;
+  onBookmarkToggle?: (articleId: string) => void;
+}
+
+export function ArticleDetailDrawer({ article, onClose, isBookmarked = false, onBookmarkToggle }: ArticleDetailDrawerProps) {
+  const { t, i18n } = useTranslation();
+  const dateLocale = i18n.language === 'ko' ? ko : enUS;
+
+  // Same-story copies and similar coverage, oldest first
+  const { data, isLoading, isError } = useQuery<RelatedArticles>({
+    queryKey: ["/api/articles", article?.id, "related"],
+    enabled: !!article && !article.transient, // Unstored items have no related articles
+  });
+
+  return (
+    <Sheet open={!!article} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-xl p-0" data-testid="drawer-article-detail">
+        {article && (
+          <ScrollArea className="h-full">
+            <div className="p-6 space-y-4">
+              {article.imageUrl && (
+                <img
+                  src={article.imageUrl}
+                  alt={article.title}
+                  className="w-full h-48 object-cover rounded-md"
+                />
+              )}
+
+              <SheetHeader className="text-left">
+                <SheetTitle className="leading-snug" data-testid="text-drawer-title">
+                  {article.title}
+                </SheetTitle>
+                <SheetDescription>
+                  {article.publisher || article.source} • {format(new Date(article.publishedAt), "yyyy-MM-dd HH:mm", { locale: dateLocale })}
+                </SheetDescription>
+              </SheetHeader>
+
+              {(article.content || article.description) && (
+                <p className="text-sm leading-relaxed whitespace-pre-line line-clamp-[12]">
+                  {article.content || article.description}
+                </p>
+              )}
+
+              <div className="flex gap-2">
+                <Button asChild size="sm" data-testid="link-drawer-original">
+                  <a href={article.url} target="_blank" rel="noopener noreferrer">
+                    {t('article.readMore')}
+                    <ExternalLink className="h-3 w-3 ml-1" />
+                  </a>
+                </Button>
+                {onBookmarkToggle && !article.transient && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onBookmarkToggle(article.id)}
+                    data-testid="button-drawer-bookmark"
+                  >
+                    {isBookmarked ? (
+                      <BookmarkCheck className="h-4 w-4 mr-1" />
+                    ) : (
+                      <Bookmark className="h-4 w-4 mr-1" />
+                    )}
+                    {isBookmarked ? t('article.unbookmark') : t('article.bookmark')}
+                  </Button>
+                )}
+              </div>
+
+              {/* Unstored items (custom feed, demo) have no related articles */}
+              {!article.transient && (
+                <>
+                  <Separator />
+
+                  {/* Related coverage timeline */}
+                  <div>
+                    <h3 className="font-semibold mb-3">{t('article.related')}</h3>
+                    {isLoading ? (
+                      <p className="text-sm text-muted-foreground">{t('article.relatedLoading')}</p>
+                    ) : isError || !data || data.related.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">{t('article.relatedEmpty')}</p>
+                    ) : (
+                      <ol className="relative border-l pl-4 space-y-4" data-testid="list-related-articles">
+                        {data.related.map((item) => (
+                          <li key={item.url} className="relative text-sm">
+                            <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-primary" />
+                            <time className="block text-xs text-muted-foreground">
+                              {formatDistanceToNow(new Date(item.publishedAt), { addSuffix: true, locale: dateLocale })}
+                            </time>
+                            <a
+                              href={item.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-medium hover:underline line-clamp-2"
+                            >
+                              {item.title}
+                            </a>
+                            <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                              <span>{item.publisher || item.source}</span>
+                              {item.relation === "story" ? (
+                                <Badge variant="secondary" className="gap-1">
+                                  <Layers className="h-3 w-3" />
+                                  {t('article.relatedSameStory')}
+                                </Badge>
+                              ) : (
+                                <Badge variant="outline" className="gap-1">
+                                  <Sparkles className="h-3 w-3" />
+                                  {t('article.relatedSimilar', { percent: Math.round((item.similarity ?? 0) * 100) })}
+                                </Badge>
+                              )}
+                            </div>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,24 +1,54 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { formatDistanceToNow } from "date-fns";
 import { ko, enUS } from "date-fns/locale";
 import { useTranslation } from "react-i18next";
-import { ExternalLink, Bookmark, BookmarkCheck } from "lucide-react";
-import type { Article } from "@shared/schema";
+import { ExternalLink, Bookmark, BookmarkCheck, ChevronDown, Layers } from "lucide-react";
+import type { SearchResultArticle, StoryDetail, TextSegment } from "@shared/schema";
 
 interface NewsCardProps {
-  article: Article;
+  article: SearchResultArticle;
   onClick?: () => void;
   isBookmarked?: boolean;
   onBookmarkToggle?: (articleId: string) => void;
 }
 
+// Search terms in a highlighted title/snippet are wrapped in <mark>
+function Highlighted({ segments }: { segments: TextSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
 export function NewsCard({ article, onClick, isBookmarked = false, onBookmarkToggle }: NewsCardProps) {
   const { t, i18n } = useTranslation();
+  const [coverageOpen, setCoverageOpen] = useState(false);
+  const dateLocale = i18n.language === 'ko' ? ko : enUS;
   const timeAgo = formatDistanceToNow(new Date(article.publishedAt), {
     addSuffix: true,
-    locale: i18n.language === 'ko' ? ko : enUS,
+    locale: dateLocale,
+  });
+
+  // Other outlets' copies of this story, loaded when the expander is opened
+  const storyCount = article.storyArticleCount ?? 0;
+  const { data: story, isLoading: storyLoading } = useQuery<StoryDetail>({
+    queryKey: ["/api/stories", article.clusterId],
+    enabled: coverageOpen && !!article.clusterId,
   });
+  const otherCoverage = story?.coverage.filter((item) => item.url !== article.url) || [];
 
   const handleBookmarkClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -45,12 +75,12 @@ export function NewsCard({ article, onClick, isBookmarked = false, onBookmarkTog
         ) : (
           <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-primary/10 to-primary/5">
             <span className="text-muted-foreground text-sm font-medium">
-              {article.source}
+              {article.publisher || article.source}
             </span>
           </div>
         )}
         {/* Bookmark Button Overlay */}
-        {onBookmarkToggle && (
+        {onBookmarkToggle && !article.transient && (
           <div className="absolute top-2 right-2">
             <Button
               size="icon"
@@ -73,11 +103,15 @@ export function NewsCard({ article, onClick, isBookmarked = false, onBookmarkTog
       <div className="p-6">
         {/* Headline */}
         <h3 className="text-lg font-semibold leading-snug line-clamp-2 mb-2" data-testid="text-article-title">
-          {article.title}
+          {article.highlight ? <Highlighted segments={article.highlight.title} /> : article.title}
         </h3>
 
-        {/* Summary */}
-        {article.description && (
+        {/* Summary (snippet around the search match when highlighted) */}
+        {article.highlight && article.highlight.snippet.length > 0 ? (
+          <p className="text-sm text-muted-foreground leading-relaxed line-clamp-3 mt-2" data-testid="text-article-snippet">
+            <Highlighted segments={article.highlight.snippet} />
+          </p>
+        ) : article.description && (
           <p className="text-sm text-muted-foreground leading-relaxed line-clamp-3 mt-2">
             {article.description}
           </p>
@@ -86,7 +120,7 @@ export function NewsCard({ article, onClick, isBookmarked = false, onBookmarkTog
         {/* Metadata Row */}
         <div className="flex items-center gap-2 mt-4 text-xs text-muted-foreground">
           <span className="font-medium" data-testid="text-article-source">
-            {article.source}
+            {article.publisher || article.source}
           </span>
           <span>•</span>
           <time dateTime={article.publishedAt.toString()} data-testid="text-article-time">
@@ -100,6 +134,47 @@ export function NewsCard({ article, onClick, isBookmarked = false, onBookmarkTog
           )}
         </div>
 
+        {/* Story coverage ("N sources covering this") */}
+        {storyCount > 1 && (
+          <Collapsible open={coverageOpen} onOpenChange={setCoverageOpen} className="mt-4">
+            <CollapsibleTrigger
+              className="inline-flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground"
+              onClick={(e) => e.stopPropagation()}
+              data-testid={`button-story-coverage-${article.id}`}
+            >
+              <Layers className="h-3 w-3" />
+              {t('article.storyCoverage', { count: storyCount })}
+              <ChevronDown className={`h-3 w-3 transition-transform ${coverageOpen ? "rotate-180" : ""}`} />
+            </CollapsibleTrigger>
+            <CollapsibleContent onClick={(e) => e.stopPropagation()}>
+              {storyLoading ? (
+                <p className="mt-2 text-xs text-muted-foreground">{t('article.storyCoverageLoading')}</p>
+              ) : (
+                <ul className="mt-2 space-y-2" data-testid={`list-story-coverage-${article.id}`}>
+                  {otherCoverage.map((item) => (
+                    <li key={item.url} className="text-xs">
+                      <a
+                        href={item.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="line-clamp-1 hover:underline"
+                      >
+                        {item.title}
+                      </a>
+                      <span className="text-muted-foreground">
+                        {item.publisher || item.source} • {formatDistanceToNow(new Date(item.publishedAt), {
+                          addSuffix: true,
+                          locale: dateLocale,
+                        })}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+
         {/* Read More Link */}
         <a
           href={article.url}
@@ -1,8 +1,11 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useTranslation } from "react-i18next";
-import { Search, Calendar, Filter, X } from "lucide-react";
+import { Search, Calendar, Filter, X, ArrowUpDown, Newspaper, Sparkles } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -18,12 +21,16 @@ import {
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { format } from "date-fns";
 import { ko } from "date-fns/locale";
+import type { NewsSourceInfo, NewsSortMode, UserPreferences } from "@shared/schema";
 
 export interface SearchFilters {
   keyword: string;
   startDate?: Date;
   endDate?: Date;
   source: string;
+  sort?: NewsSortMode;
+  publisher?: string;
+  semantic?: boolean; // Rank stored articles by meaning (/api/news/semantic-search)
 }
 
 interface SearchFilterPanelProps {
@@ -37,9 +44,40 @@ export function SearchFilterPanel({ onSearch, isLoading }: SearchFilterPanelProp
   const [startDate, setStartDate] = useState<Date | undefined>();
   const [endDate, setEndDate] = useState<Date | undefined>();
   const [source, setSource] = useState("all");
+  const [sort, setSort] = useState<NewsSortMode>("date");
+  const [publisher, setPublisher] = useState("all");
+  const [semantic, setSemantic] = useState(false);
+
+  // Source options come from the server-side registry
+  const { data: sources = [] } = useQuery<NewsSourceInfo[]>({
+    queryKey: ["/api/sources"],
+  });
+
+  const { data: publishers = [] } = useQuery<string[]>({
+    queryKey: ["/api/publishers"],
+  });
+
+  const { data: preferences } = useQuery<UserPreferences>({
+    queryKey: ["/api/preferences"],
+  });
+
+  // List the user's favorite publishers first
+  const favoritePublishers = preferences?.favoritePublishers || [];
+  const orderedPublishers = [
+    ...publishers.filter((p) => favoritePublishers.includes(p)),
+    ...publishers.filter((p) => !favoritePublishers.includes(p)),
+  ];
 
   const handleSearch = () => {
-    onSearch({ keyword, startDate, endDate, source });
+    onSearch({
+      keyword,
+      startDate,
+      endDate,
+      source,
+      sort,
+      publisher: publisher !== "all" ? publisher : undefined,
+      semantic,
+    });
   };
 
   const handleClear = () => {
@@ -47,10 +85,13 @@ export function SearchFilterPanel({ onSearch, isLoading }: SearchFilterPanelProp
     setStartDate(undefined);
     setEndDate(undefined);
     setSource("all");
+    setSort("date");
+    setPublisher("all");
+    setSemantic(false);
     onSearch({ keyword: "", source: "all" });
   };
 
-  const hasFilters = keyword || startDate || endDate || source !== "all";
+  const hasFilters = keyword || startDate || endDate || source !== "all" || sort !== "date" || publisher !== "all" || semantic;
 
   return (
     <div className="sticky top-16 z-40 w-full bg-card border-b shadow-sm">
@@ -61,6 +102,7 @@ export function SearchFilterPanel({ onSearch, isLoading }: SearchFilterPanelProp
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
               placeholder={t('home.searchPlaceholder')}
+              title={t('search.syntaxHint')}
               value={keyword}
               onChange={(e) => setKeyword(e.target.value)}
               onKeyDown={(e) => e.key === "Enter" && handleSearch()}
@@ -120,12 +162,56 @@ export function SearchFilterPanel({ onSearch, isLoading }: SearchFilterPanelProp
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">{t('search.allSources')}</SelectItem>
-              <SelectItem value="newsapi">NewsAPI</SelectItem>
-              <SelectItem value="naver">Naver</SelectItem>
-              <SelectItem value="bing">Bing</SelectItem>
+              {sources.filter((s) => s.enabled).map((s) => (
+                <SelectItem key={s.id} value={s.id}>
+                  {s.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {/* Publisher Filter */}
+          <Select value={publisher} onValueChange={setPublisher}>
+            <SelectTrigger className="w-[160px]" data-testid="select-publisher">
+              <Newspaper className="h-4 w-4 mr-2" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t('search.allPublishers')}</SelectItem>
+              {orderedPublishers.map((p) => (
+                <SelectItem key={p} value={p}>
+                  {p}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
 
+          {/* Sort Mode (semantic results are always ranked by similarity) */}
+          <Select value={sort} onValueChange={(value) => setSort(value as NewsSortMode)} disabled={semantic}>
+            <SelectTrigger className="w-[150px]" data-testid="select-sort">
+              <ArrowUpDown className="h-4 w-4 mr-2" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="date">{t('search.sortDate')}</SelectItem>
+              <SelectItem value="sim">{t('search.sortRelevance')}</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {/* Semantic Search Toggle */}
+          <div className="flex items-center gap-2 px-1">
+            <Switch
+              id="semantic-search"
+              checked={semantic}
+              onCheckedChange={setSemantic}
+              data-testid="switch-semantic-search"
+            />
+            <Label htmlFor="semantic-search" className="flex items-center gap-1 cursor-pointer whitespace-nowrap">
+              <Sparkles className="h-4 w-4" />
+              {t('search.semantic')}
+            </Label>
+          </div>
+
           {/* Action Buttons */}
           <div className="flex gap-2">
             <Button
@@ -114,6 +114,7 @@ export function SubscriptionModal({
                 <Plus className="h-4 w-4" />
               </Button>
             </div>
+            <p className="text-xs text-muted-foreground">{t('subscriptions.keywordsHint')}</p>
 
             {/* Keyword Tags */}
             {keywords.length > 0 && (
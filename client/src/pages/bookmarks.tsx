@@ -1,9 +1,11 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useTranslation } from "react-i18next";
 import { Bookmark as BookmarkIcon, ArrowLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { NewsCard } from "@/components/news-card";
 import { NewsCardSkeleton } from "@/components/news-card-skeleton";
+import { ArticleDetailDrawer } from "@/components/article-detail-drawer";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { useLocation } from "wouter";
 import type { Bookmark, Article } from "@shared/schema";
@@ -11,6 +13,7 @@ import type { Bookmark, Article } from "@shared/schema";
 export default function Bookmarks() {
   const { t } = useTranslation();
   const [, setLocation] = useLocation();
+  const [selectedArticle, setSelectedArticle] = useState<Article | null>(null);
 
   // Fetch bookmarked articles
   const { data: bookmarks, isLoading } = useQuery<(Bookmark & { article: Article })[]>({
@@ -91,12 +94,15 @@ export default function Bookmarks() {
               <NewsCard
                 key={article.id}
                 article={article}
-                onClick={() => window.open(article.url, "_blank")}
+                onClick={() => setSelectedArticle(article)}
               />
             ))}
           </div>
         )}
       </div>
+
+      {/* Article Detail Drawer */}
+      <ArticleDetailDrawer article={selectedArticle} onClose={() => setSelectedArticle(null)} />
     </div>
   );
 }
@@ -1,8 +1,9 @@
 import { useState, useMemo, useCallback } from "react";
 import { useQuery, useInfiniteQuery, useMutation } from "@tanstack/react-query";
-import { Newspaper, LogOut, RefreshCw, Settings, Bookmark, Loader2, Mail } from "lucide-react";
+import { Newspaper, LogOut, RefreshCw, Settings, Bookmark, Loader2, Mail, AlertCircle } from "lucide-react";
 import { useTranslation } from "react-i18next";
 import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { ThemeToggle } from "@/components/theme-toggle";
@@ -10,23 +11,26 @@ import { LanguageToggle } from "@/components/language-toggle";
 import { TrendingDashboard, TrendingDashboardSkeleton } from "@/components/trending-dashboard";
 import { SearchFilterPanel, type SearchFilters } from "@/components/search-filter-panel";
 import { NewsCard } from "@/components/news-card";
+import { ArticleDetailDrawer } from "@/components/article-detail-drawer";
 import { NewsCardSkeleton } from "@/components/news-card-skeleton";
 import { SubscriptionModal } from "@/components/subscription-modal";
 import { EmailStatusIndicator } from "@/components/email-status-indicator";
-import type { Article, TrendData, Subscription, InsertSubscription, Bookmark as BookmarkType, User } from "@shared/schema";
+import type { Article, ArticleWithStory, SearchResultArticle, TrendData, Subscription, InsertSubscription, Bookmark as BookmarkType, User, UnavailableSource } from "@shared/schema";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { useLocation } from "wouter";
 import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
 import { useNotifications } from "@/hooks/useNotifications";
 
 interface PaginatedResponse {
-  articles: Article[];
+  articles: SearchResultArticle[];
   pagination: {
-    page: number;
+    page?: number; // Semantic search pages by number
+    nextCursor?: string | null; // Keyword search pages through a server-side snapshot
     pageSize: number;
     total: number;
     hasMore: boolean;
   };
+  unavailableSources?: UnavailableSource[];
 }
 
 export default function Home() {
@@ -34,6 +38,7 @@ export default function Home() {
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   const [subscriptionModalOpen, setSubscriptionModalOpen] = useState(false);
+  const [selectedArticle, setSelectedArticle] = useState<ArticleWithStory | null>(null);
   const [searchParams, setSearchParams] = useState<SearchFilters>({
     keyword: "",
     source: "all",
@@ -53,9 +58,17 @@ export default function Home() {
   });
 
   // Fetch news articles with infinite scroll
-  const buildSearchUrl = (page: number) => {
+  // pageParam: null = first page, a cursor string (keyword search) or a page number (semantic search)
+  const buildSearchUrl = (pageParam: string | number | null) => {
     const params = new URLSearchParams();
-    if (searchParams.keyword) params.append("keyword", searchParams.keyword);
+    // The cursor stands for the whole search, so later keyword pages only need it
+    if (typeof pageParam === "string") {
+      params.append("cursor", pageParam);
+      params.append("pageSize", "20");
+      return `/api/news/search?${params.toString()}`;
+    }
+    // Semantic search takes the keyword as a free-text query
+    if (searchParams.keyword) params.append(searchParams.semantic ? "q" : "keyword", searchParams.keyword);
     if (searchParams.startDate) {
       params.append("startDate", new Date(searchParams.startDate).toISOString().split('T')[0]);
     }
@@ -63,9 +76,12 @@ export default function Home() {
       params.append("endDate", new Date(searchParams.endDate).toISOString().split('T')[0]);
     }
     if (searchParams.source && searchParams.source !== "all") params.append("source", searchParams.source);
-    params.append("page", page.toString());
+    if (searchParams.sort && searchParams.sort !== "date" && !searchParams.semantic) params.append("sort", searchParams.sort);
+    if (searchParams.publisher) params.append("publisher", searchParams.publisher);
+    if (searchParams.semantic) params.append("blend", "true");
+    if (searchParams.semantic) params.append("page", String(pageParam ?? 1));
     params.append("pageSize", "20");
-    return `/api/news/search?${params.toString()}`;
+    return `${searchParams.semantic ? "/api/news/semantic-search" : "/api/news/search"}?${params.toString()}`;
   };
 
   const {
@@ -77,16 +93,18 @@ export default function Home() {
     refetch: refetchArticles,
   } = useInfiniteQuery<PaginatedResponse>({
     queryKey: ["articles", searchParams],
-    queryFn: async ({ pageParam = 1 }) => {
-      const response = await fetch(buildSearchUrl(pageParam as number));
+    queryFn: async ({ pageParam }) => {
+      const response = await fetch(buildSearchUrl(pageParam as string | number | null));
       if (!response.ok) throw new Error("Failed to fetch articles");
       return response.json();
     },
     getNextPageParam: (lastPage) => {
-      return lastPage.pagination.hasMore ? lastPage.pagination.page + 1 : undefined;
+      const { hasMore, nextCursor, page } = lastPage.pagination;
+      if (!hasMore) return undefined;
+      return nextCursor ?? (page ?? 1) + 1;
     },
     enabled: !!searchParams.keyword,
-    initialPageParam: 1,
+    initialPageParam: null,
   });
 
   // Flatten all pages into single array
@@ -94,6 +112,9 @@ export default function Home() {
     return articlesData?.pages.flatMap((page) => page.articles) || [];
   }, [articlesData]);
 
+  // Sources that failed for this search (reported with the first page)
+  const unavailableSources = articlesData?.pages[0]?.unavailableSources || [];
+
   // Infinite scroll trigger
   const loadMoreRef = useInfiniteScroll({
     onLoadMore: () => fetchNextPage(),
@@ -344,6 +365,18 @@ export default function Home() {
 
         {/* News Grid */}
         <main className="max-w-7xl mx-auto px-4 py-8">
+          {/* Partial results warning */}
+          {searchParams.keyword && unavailableSources.length > 0 && (
+            <Alert className="mb-6" data-testid="alert-partial-results">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {t('home.partialResults', {
+                  sources: unavailableSources.map((s) => s.name).join(", "),
+                })}
+              </AlertDescription>
+            </Alert>
+          )}
+
           {!searchParams.keyword ? (
             <div className="text-center py-16">
               <Newspaper className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
@@ -370,7 +403,7 @@ export default function Home() {
                   <NewsCard
                     key={article.id}
                     article={article}
-                    onClick={() => window.open(article.url, "_blank")}
+                    onClick={() => setSelectedArticle(article)}
                     isBookmarked={bookmarkedArticleIds.has(article.id)}
                     onBookmarkToggle={handleBookmarkToggle}
                   />
@@ -415,6 +448,14 @@ export default function Home() {
         </main>
       </div>
 
+      {/* Article Detail Drawer */}
+      <ArticleDetailDrawer
+        article={selectedArticle}
+        onClose={() => setSelectedArticle(null)}
+        isBookmarked={!!selectedArticle && bookmarkedArticleIds.has(selectedArticle.id)}
+        onBookmarkToggle={handleBookmarkToggle}
+      />
+
       {/* Subscription Modal */}
       <SubscriptionModal
         open={subscriptionModalOpen}
@@ -1,11 +1,13 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useTranslation } from "react-i18next";
-import { Settings as SettingsIcon, Save, ArrowLeft } from "lucide-react";
+import { Settings as SettingsIcon, Save, ArrowLeft, Plus, Trash2, Rss } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Slider } from "@/components/ui/slider";
 import {
   Select,
   SelectContent,
@@ -17,13 +19,7 @@ import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { useLocation } from "wouter";
-import type { UserPreferences } from "@shared/schema";
-
-const availableSources = [
-  { id: "newsapi", label: "NewsAPI (International)" },
-  { id: "naver", label: "Naver (Korea)" },
-  { id: "bing", label: "Bing News" },
-];
+import { dedupKeepRules, type UserPreferences, type NewsSourceInfo, type UserFeed, type DedupPolicy, type DedupKeepRule } from "@shared/schema";
 
 const availableCategories = [
   { id: "technology", label: "기술 / Technology" },
@@ -38,20 +34,47 @@ export default function Settings() {
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   const [favoriteSources, setFavoriteSources] = useState<string[]>([]);
+  const [favoritePublishers, setFavoritePublishers] = useState<string[]>([]);
   const [favoriteCategories, setFavoriteCategories] = useState<string[]>([]);
   const [language, setLanguage] = useState("ko");
+  const [feedUrl, setFeedUrl] = useState("");
+  // Own dedup policy for my results; off = deployment defaults
+  const [customDedup, setCustomDedup] = useState(false);
+  const [similarityThreshold, setSimilarityThreshold] = useState(0.85);
+  const [titlePrefixLength, setTitlePrefixLength] = useState(50);
+  const [dedupKeep, setDedupKeep] = useState<DedupKeepRule>("newest");
 
   // Fetch user preferences
   const { data: preferences, isLoading } = useQuery<UserPreferences>({
     queryKey: ["/api/preferences"],
   });
 
+  // Fetch registered news sources
+  const { data: availableSources = [] } = useQuery<NewsSourceInfo[]>({
+    queryKey: ["/api/sources"],
+  });
+
+  // Fetch known publishers (press outlets)
+  const { data: availablePublishers = [] } = useQuery<string[]>({
+    queryKey: ["/api/publishers"],
+  });
+
+  // Fetch user's custom feeds
+  const { data: feeds = [] } = useQuery<UserFeed[]>({
+    queryKey: ["/api/feeds"],
+  });
+
   // Initialize state when preferences are loaded
   useEffect(() => {
     if (preferences) {
       setFavoriteSources(preferences.favoriteSources || []);
+      setFavoritePublishers(preferences.favoritePublishers || []);
       setFavoriteCategories(preferences.favoriteCategories || []);
       setLanguage(preferences.language || "ko");
+      setCustomDedup(!!preferences.dedupPolicy);
+      setSimilarityThreshold(preferences.dedupPolicy?.similarityThreshold ?? 0.85);
+      setTitlePrefixLength(preferences.dedupPolicy?.titlePrefixLength ?? 50);
+      setDedupKeep(preferences.dedupPolicy?.keep ?? "newest");
     }
   }, [preferences]);
 
@@ -59,8 +82,10 @@ export default function Settings() {
   const updatePreferences = useMutation({
     mutationFn: async (data: {
       favoriteSources: string[];
+      favoritePublishers: string[];
       favoriteCategories: string[];
       language: string;
+      dedupPolicy: Partial<DedupPolicy> | null;
     }) => {
       await apiRequest("PUT", "/api/preferences", data);
     },
@@ -86,6 +111,63 @@ export default function Settings() {
     },
   });
 
+  // Add custom feed mutation (server fetches and validates the feed before saving)
+  const addFeed = useMutation({
+    mutationFn: async (url: string) => {
+      await apiRequest("POST", "/api/feeds", { url });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/feeds"] });
+      setFeedUrl("");
+      toast({
+        title: t('settings.feedAdded'),
+        description: t('settings.feedAdded'),
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        window.location.href = "/api/login";
+        return;
+      }
+      toast({
+        title: t('common.error'),
+        description: t('settings.feedAddError'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Delete custom feed mutation
+  const deleteFeed = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/feeds/${id}`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/feeds"] });
+      toast({
+        title: t('settings.feedRemoved'),
+        description: t('settings.feedRemoved'),
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        window.location.href = "/api/login";
+        return;
+      }
+      toast({
+        title: t('common.error'),
+        description: t('settings.feedRemoveError'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddFeed = () => {
+    if (feedUrl.trim()) {
+      addFeed.mutate(feedUrl.trim());
+    }
+  };
+
   const toggleSource = (sourceId: string) => {
     setFavoriteSources((prev) =>
       prev.includes(sourceId)
@@ -94,6 +176,14 @@ export default function Settings() {
     );
   };
 
+  const togglePublisher = (publisher: string) => {
+    setFavoritePublishers((prev) =>
+      prev.includes(publisher)
+        ? prev.filter((p) => p !== publisher)
+        : [...prev, publisher]
+    );
+  };
+
   const toggleCategory = (categoryId: string) => {
     setFavoriteCategories((prev) =>
       prev.includes(categoryId)
@@ -105,8 +195,13 @@ export default function Settings() {
   const handleSave = () => {
     updatePreferences.mutate({
       favoriteSources,
+      favoritePublishers,
       favoriteCategories,
       language,
+      // "Preferred source" ranks by the favorite sources chosen above
+      dedupPolicy: customDedup
+        ? { similarityThreshold, titlePrefixLength, keep: dedupKeep, preferredSources: favoriteSources }
+        : null,
     });
   };
 
@@ -179,7 +274,7 @@ export default function Settings() {
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
-                {availableSources.map((source) => (
+                {availableSources.filter((source) => source.enabled).map((source) => (
                   <div key={source.id} className="flex items-center space-x-2">
                     <Checkbox
                       id={`source-${source.id}`}
@@ -191,7 +286,40 @@ export default function Settings() {
                       htmlFor={`source-${source.id}`}
                       className="cursor-pointer"
                     >
-                      {source.label}
+                      {source.name}
+                      <span className="ml-2 text-xs text-muted-foreground uppercase">
+                        {source.capabilities.languages.join(", ")}
+                      </span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Favorite Publishers */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('settings.favoritePublishers')}</CardTitle>
+              <CardDescription>
+                {t('settings.selectPublishers')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {availablePublishers.map((publisher) => (
+                  <div key={publisher} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`publisher-${publisher}`}
+                      checked={favoritePublishers.includes(publisher)}
+                      onCheckedChange={() => togglePublisher(publisher)}
+                      data-testid={`checkbox-publisher-${publisher}`}
+                    />
+                    <Label
+                      htmlFor={`publisher-${publisher}`}
+                      className="cursor-pointer"
+                    >
+                      {publisher}
                     </Label>
                   </div>
                 ))}
@@ -229,6 +357,143 @@ export default function Settings() {
             </CardContent>
           </Card>
 
+          {/* Deduplication */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('settings.dedup')}</CardTitle>
+              <CardDescription>
+                {t('settings.dedupDescription')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="dedup-custom"
+                  checked={customDedup}
+                  onCheckedChange={(checked) => setCustomDedup(checked === true)}
+                  data-testid="checkbox-dedup-custom"
+                />
+                <Label htmlFor="dedup-custom" className="cursor-pointer">
+                  {t('settings.dedupCustom')}
+                </Label>
+              </div>
+
+              {customDedup && (
+                <>
+                  <div className="space-y-3">
+                    <Label>
+                      {t('settings.dedupThreshold')}: {similarityThreshold.toFixed(2)}
+                    </Label>
+                    <Slider
+                      min={0.5}
+                      max={1}
+                      step={0.01}
+                      value={[similarityThreshold]}
+                      onValueChange={([value]) => setSimilarityThreshold(value)}
+                      data-testid="slider-dedup-threshold"
+                    />
+                    <p className="text-sm text-muted-foreground">{t('settings.dedupThresholdHint')}</p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="dedup-title-prefix">{t('settings.dedupTitlePrefix')}</Label>
+                    <Input
+                      id="dedup-title-prefix"
+                      type="number"
+                      min={10}
+                      max={200}
+                      value={titlePrefixLength}
+                      onChange={(e) => setTitlePrefixLength(Math.min(200, Math.max(10, Number(e.target.value) || 10)))}
+                      data-testid="input-dedup-title-prefix"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="dedup-keep">{t('settings.dedupKeep')}</Label>
+                    <Select value={dedupKeep} onValueChange={(value) => setDedupKeep(value as DedupKeepRule)}>
+                      <SelectTrigger id="dedup-keep" data-testid="select-dedup-keep">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {dedupKeepRules.map((rule) => (
+                          <SelectItem key={rule} value={rule}>
+                            {t(`settings.dedupKeepRules.${rule}`)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Custom Feeds */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('settings.customFeeds')}</CardTitle>
+              <CardDescription>
+                {t('settings.customFeedsDescription')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Input
+                  type="url"
+                  placeholder={t('settings.feedUrlPlaceholder')}
+                  value={feedUrl}
+                  onChange={(e) => setFeedUrl(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      handleAddFeed();
+                    }
+                  }}
+                  data-testid="input-feed-url"
+                />
+                <Button
+                  type="button"
+                  onClick={handleAddFeed}
+                  disabled={!feedUrl.trim() || addFeed.isPending}
+                  data-testid="button-add-feed"
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {feeds.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t('settings.noFeeds')}</p>
+              ) : (
+                <div className="space-y-2">
+                  {feeds.map((feed) => (
+                    <div
+                      key={feed.id}
+                      className="flex items-center justify-between gap-2 p-3 bg-muted rounded-lg"
+                      data-testid={`feed-${feed.id}`}
+                    >
+                      <div className="flex items-center gap-2 min-w-0">
+                        <Rss className="h-4 w-4 text-primary shrink-0" />
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">{feed.title || feed.url}</p>
+                          <p className="text-xs text-muted-foreground truncate">{feed.url}</p>
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteFeed.mutate(feed.id)}
+                        disabled={deleteFeed.isPending}
+                        data-testid={`button-delete-feed-${feed.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Save Button */}
           <div className="flex justify-end">
             <Button
@@ -0,0 +1,231 @@
+import axios from "axios";
+import { JSDOM, VirtualConsole } from "jsdom";
+import { Readability } from "@mozilla/readability";
+import { isFixtureReplay } from "./newsFixtures";
+import { canonicalFromPageLink } from "./urlCanonicalizer";
+import { assertPublicUrl, publicOnlyRequestConfig } from "./urlSafety";
+
+/*
+ * Full-text article extraction
+ * Fetches the publisher page, decodes it (Korean publishers still commonly
+ * serve EUC-KR/CP949), strips navigation/ads/comments with Mozilla's
+ * Readability and returns the clean body text for articles.content.
+ */
+
+const MAX_PAGE_BYTES = 5 * 1024 * 1024; // Skip pages larger than 5 MB
+const MIN_CONTENT_LENGTH = 200; // Shorter results are usually paywalls or index pages
+const MAX_CONTENT_LENGTH = 20000; // Enough for summaries/embeddings, keeps rows small
+const METADATA_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // Page metadata rarely changes after publication
+const METADATA_CACHE_MAX_ENTRIES = 5000;
+
+// Charset labels Korean sites use that TextDecoder doesn't know by name.
+// WHATWG "euc-kr" is decoded as windows-949 (a CP949 superset), so map them all onto it.
+const CHARSET_ALIASES: Record<string, string> = {
+  cp949: "euc-kr",
+  ms949: "euc-kr",
+  uhc: "euc-kr",
+  "x-windows-949": "euc-kr",
+  "windows-949": "euc-kr",
+};
+
+export interface FetchedPage {
+  html: string;
+  url: string; // Final URL after redirects
+}
+
+export interface PageMetadata {
+  image: string | null; // og:image, resolved to an absolute URL
+  siteName: string | null; // og:site_name
+  section: string | null; // article:section
+  publishedTime: string | null; // article:published_time (ISO 8601)
+  canonicalUrl: string | null; // <link rel="canonical"> (else og:url), canonicalized
+}
+
+export interface PageDetails {
+  metadata: PageMetadata;
+  content: string | null; // Readable body text (null = none found, not extracted, or cached)
+}
+
+export interface ExtractedArticle {
+  content: string | null; // Readable body text (null = none found)
+  canonicalUrl: string | null; // <link rel="canonical"> (else og:url), canonicalized
+}
+
+// URL -> metadata (null = fetch failed, cached too so broken pages aren't retried every search)
+const metadataCache = new Map<string, { fetchedAt: number; metadata: PageMetadata | null }>();
+
+// Off when CONTENT_EXTRACTION=false, and during fixture replay so offline runs never fetch pages
+export function isContentExtractionEnabled(): boolean {
+  return !isFixtureReplay() && process.env.CONTENT_EXTRACTION !== "false";
+}
+
+function normalizeCharset(label: string | undefined): string | undefined {
+  if (!label) return undefined;
+  const lower = label.trim().toLowerCase();
+  return CHARSET_ALIASES[lower] || lower;
+}
+
+// Charset from the Content-Type header, else from <meta charset> / <meta http-equiv> in the head
+function detectCharset(contentType: string | undefined, head: string): string | undefined {
+  const fromHeader = contentType?.match(/charset=["']?([\w-]+)/i)?.[1];
+  if (fromHeader) return normalizeCharset(fromHeader);
+
+  const fromMeta = head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1];
+  return normalizeCharset(fromMeta);
+}
+
+export function decodeHtml(body: ArrayBuffer, contentType?: string): string {
+  const bytes = Buffer.from(body);
+  const charset = detectCharset(contentType, bytes.subarray(0, 4096).toString("latin1"));
+
+  try {
+    return new TextDecoder(charset || "utf-8").decode(bytes);
+  } catch {
+    // Unknown label - fall back to UTF-8 rather than failing the article
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+// Fetch an HTML page and decode it to a string. Throws on network/HTTP errors and non-HTML responses.
+// Article links can come from user feeds, so only public hosts are fetched (see urlSafety.ts)
+export async function fetchArticlePage(url: string): Promise<FetchedPage> {
+  await assertPublicUrl(url);
+  const response = await axios.get(url, {
+    ...publicOnlyRequestConfig,
+    responseType: "arraybuffer",
+    headers: {
+      Accept: "text/html,application/xhtml+xml",
+      "User-Agent": "Mozilla/5.0 (compatible; NewsHarvester/1.0)",
+    },
+    maxContentLength: MAX_PAGE_BYTES,
+    timeout: 10000,
+  });
+
+  const contentType = response.headers["content-type"] as string | undefined;
+  if (contentType && !/html/i.test(contentType)) {
+    throw new Error(`Unsupported content type: ${contentType}`);
+  }
+
+  return {
+    html: decodeHtml(response.data, contentType),
+    url: response.request?.res?.responseUrl || url,
+  };
+}
+
+function cleanText(text: string): string {
+  return text
+    .replace(/\u00a0/g, " ")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// The page's own idea of its URL: <link rel="canonical">, else og:url
+function readCanonicalUrl(document: Document, pageUrl: string): string | null {
+  const link = document.querySelector('link[rel~="canonical"]')?.getAttribute("href")?.trim();
+  const ogUrl = document.querySelector('meta[property="og:url"]')?.getAttribute("content")?.trim();
+  return canonicalFromPageLink(link || ogUrl || null, pageUrl);
+}
+
+// Readable body text of a parsed page; Readability rewrites the document, so read anything else first
+function readReadableText(document: Document): string | null {
+  const parsed = new Readability(document).parse();
+  const text = parsed?.textContent ? cleanText(parsed.textContent) : "";
+  return text.length < MIN_CONTENT_LENGTH ? null : text.slice(0, MAX_CONTENT_LENGTH);
+}
+
+// Open Graph / article:* meta tags of a parsed page
+function readPageMetadata(document: Document, pageUrl: string): PageMetadata {
+  const meta = (property: string): string | null => {
+    const element = document.querySelector(`meta[property="${property}"], meta[name="${property}"]`);
+    const value = element?.getAttribute("content")?.trim();
+    return value || null;
+  };
+
+  let image = meta("og:image");
+  if (image) {
+    try {
+      image = new URL(image, pageUrl).href;
+    } catch {
+      image = null;
+    }
+  }
+
+  return {
+    image,
+    siteName: meta("og:site_name"),
+    section: meta("article:section"),
+    publishedTime: meta("article:published_time"),
+    canonicalUrl: readCanonicalUrl(document, pageUrl),
+  };
+}
+
+// Parse a fetched page once and hand its document to the reader
+function withDocument<T>(page: FetchedPage, read: (document: Document) => T): T {
+  // Silence jsdom's CSS/script parse warnings from publisher markup
+  const dom = new JSDOM(page.html, { url: page.url, virtualConsole: new VirtualConsole() });
+  try {
+    return read(dom.window.document);
+  } finally {
+    dom.window.close();
+  }
+}
+
+// Run Readability over an already fetched page
+export function extractReadableText(page: FetchedPage): ExtractedArticle {
+  return withDocument(page, (document) => {
+    const canonicalUrl = readCanonicalUrl(document, page.url);
+    return { content: readReadableText(document), canonicalUrl };
+  });
+}
+
+/**
+ * Fetch an article URL and return its main body text and canonical URL
+ * Returns null (never throws) when the page can't be fetched
+ */
+export async function extractArticle(url: string): Promise<ExtractedArticle | null> {
+  try {
+    return extractReadableText(await fetchArticlePage(url));
+  } catch (error: any) {
+    console.error(`[ContentExtractor] Failed to extract ${url}:`, error.message);
+    return null;
+  }
+}
+
+// Read Open Graph / article:* meta tags from an already fetched page
+export function extractPageMetadata(page: FetchedPage): PageMetadata {
+  return withDocument(page, (document) => readPageMetadata(document, page.url));
+}
+
+/**
+ * Fetch a page once for both its Open Graph metadata and its body text
+ * Metadata is cached per URL for 24 hours; body text isn't, so a cached hit
+ * returns content: null (as does a fetch while extraction is disabled).
+ * Returns null (never throws) when the page can't be fetched.
+ */
+export async function fetchPageDetails(url: string): Promise<PageDetails | null> {
+  const cached = metadataCache.get(url);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_CACHE_TTL_MS) {
+    return cached.metadata && { metadata: cached.metadata, content: null };
+  }
+
+  let details: PageDetails | null = null;
+  try {
+    const page = await fetchArticlePage(url);
+    details = withDocument(page, (document) => ({
+      metadata: readPageMetadata(document, page.url),
+      content: isContentExtractionEnabled() ? readReadableText(document) : null,
+    }));
+  } catch (error: any) {
+    console.error(`[ContentExtractor] Failed to read ${url}:`, error.message);
+  }
+
+  // Map iteration order is insertion order, so the first key is the oldest entry
+  if (metadataCache.size >= METADATA_CACHE_MAX_ENTRIES) {
+    const oldest = metadataCache.keys().next().value;
+    if (oldest !== undefined) metadataCache.delete(oldest);
+  }
+  metadataCache.set(url, { fetchedAt: Date.now(), metadata: details?.metadata ?? null });
+  return details;
+}
@@ -0,0 +1,109 @@
+import { searchNews } from "./newsService";
+import { storage } from "./storage";
+import { pruneNewsCache } from "./newsCache";
+import { pruneSearchSessions } from "./searchSessions";
+import { canonicalQuery, parseSearchQuery } from "./queryParser";
+
+/*
+ * Background ingestion worker
+ * Periodically pulls every enabled source for the tracked keywords so that
+ * /api/news/search can answer from the stored articles table instead of
+ * fanning out to the external APIs on every request.
+ * Tracked keywords = active subscription keywords + terms searched recently.
+ */
+
+const CRAWL_INTERVAL_MS = 30 * 60 * 1000; // 30 minutes
+const RECENT_SEARCH_WINDOW_MS = 7 * 24 * 60 * 60 * 1000; // Keep crawling terms searched in the last 7 days
+const DEFAULT_MAX_SEARCH_TERMS = 200;
+// Most-searched recent terms crawled per run (subscription keywords are always crawled)
+const MAX_SEARCH_TERMS = (() => {
+  const value = parseInt(process.env.CRAWLER_MAX_SEARCH_TERMS || "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_MAX_SEARCH_TERMS;
+})();
+
+let isCrawling = false;
+
+// Search terms are stored as canonical queries so "AI" and "ai " share one entry
+// (operators keep their case: "a OR b" and "a or b" are different queries)
+export function normalizeKeyword(keyword: string): string {
+  const query = parseSearchQuery(keyword);
+  return query ? canonicalQuery(query) : keyword.trim().toLowerCase();
+}
+
+/**
+ * Collect the keywords the crawler should keep fresh
+ */
+export async function getTrackedKeywords(): Promise<string[]> {
+  const [subscriptions, recentTerms] = await Promise.all([
+    storage.getAllActiveSubscriptions(),
+    storage.getRecentSearchTerms(new Date(Date.now() - RECENT_SEARCH_WINDOW_MS), MAX_SEARCH_TERMS),
+  ]);
+
+  const keywords = new Set<string>();
+  for (const subscription of subscriptions) {
+    for (const keyword of subscription.keywords) {
+      keywords.add(normalizeKeyword(keyword));
+    }
+  }
+  for (const term of recentTerms) {
+    keywords.add(term.keyword);
+  }
+
+  return Array.from(keywords).filter(Boolean);
+}
+
+/**
+ * Run one crawl pass over all tracked keywords
+ * Keywords are processed sequentially to stay within the source APIs' rate limits
+ */
+export async function crawlTrackedKeywords(): Promise<void> {
+  if (isCrawling) {
+    console.log("[Crawler] Previous crawl still running, skipping this run");
+    return;
+  }
+
+  isCrawling = true;
+  try {
+    const keywords = await getTrackedKeywords();
+    console.log(`[Crawler] Crawling ${keywords.length} tracked keyword(s)`);
+
+    let totalArticles = 0;
+    for (const keyword of keywords) {
+      try {
+        // Background prefetch shares the lowest budget tier with the breaking-news monitor
+        const articles = await searchNews({ keyword, source: "all", priority: "monitor" });
+        await storage.markSearchTermCrawled(keyword);
+        totalArticles += articles.length;
+      } catch (error) {
+        console.error(`[Crawler] Error crawling keyword "${keyword}":`, error);
+      }
+    }
+
+    console.log(`[Crawler] Crawl complete: ${totalArticles} article(s) for ${keywords.length} keyword(s)`);
+
+    // Drop expired persistent cache rows and search sessions while we're here
+    await pruneNewsCache();
+    await pruneSearchSessions();
+  } catch (error) {
+    console.error("[Crawler] Error in crawl run:", error);
+  } finally {
+    isCrawling = false;
+  }
+}
+
+/**
+ * Start the background crawler
+ * Crawls tracked keywords every 30 minutes
+ */
+export function startCrawler() {
+  console.log("[Crawler] Starting background crawler (interval: 30 minutes)");
+
+  // Run initial crawl after 1 minute
+  setTimeout(() => {
+    crawlTrackedKeywords();
+  }, 60 * 1000);
+
+  setInterval(() => {
+    crawlTrackedKeywords();
+  }, CRAWL_INTERVAL_MS);
+}
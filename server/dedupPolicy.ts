@@ -0,0 +1,160 @@
+import {
+  dedupKeepRules,
+  dedupPolicySchema,
+  type Article,
+  type DedupDecision,
+  type DedupKeepRule,
+  type DedupPolicy,
+  type InsertArticle,
+} from "@shared/schema";
+import { areArticlesSimilar, cosineSimilarity, embeddingFromArticle, SIMILARITY_THRESHOLD } from "./embeddingService";
+
+/*
+ * Deduplication policy
+ * Ingestion into the shared archive uses the deployment policy (DEDUP_* env).
+ * A user's userPreferences.dedupPolicy overrides it for their own result
+ * pages, re-deduplicating the stored articles shown to them. The override can
+ * only merge further: copies merged at ingestion are already gone from the
+ * archive, so a stricter threshold than the deployment's can't bring them
+ * back, and merges happen within a page rather than across pages.
+ */
+
+const DEFAULT_POLICY: DedupPolicy = {
+  similarityThreshold: SIMILARITY_THRESHOLD,
+  titlePrefixLength: 50,
+  keep: "newest",
+  preferredSources: [],
+};
+
+function policyFromEnv(): DedupPolicy {
+  const env: Partial<DedupPolicy> = {};
+  if (process.env.DEDUP_SIMILARITY_THRESHOLD) {
+    env.similarityThreshold = parseFloat(process.env.DEDUP_SIMILARITY_THRESHOLD);
+  }
+  if (process.env.DEDUP_TITLE_PREFIX_LENGTH) {
+    env.titlePrefixLength = parseInt(process.env.DEDUP_TITLE_PREFIX_LENGTH, 10);
+  }
+  if (process.env.DEDUP_KEEP) {
+    env.keep = process.env.DEDUP_KEEP as DedupKeepRule;
+  }
+  if (process.env.DEDUP_PREFERRED_SOURCES) {
+    env.preferredSources = process.env.DEDUP_PREFERRED_SOURCES.split(",").map((s) => s.trim()).filter(Boolean);
+  }
+
+  const parsed = dedupPolicySchema.safeParse({ ...DEFAULT_POLICY, ...env });
+  if (!parsed.success) {
+    console.warn(
+      `[DedupPolicy] Invalid DEDUP_* settings (keep: ${dedupKeepRules.join(", ")}), using defaults:`,
+      parsed.error.message,
+    );
+    return DEFAULT_POLICY;
+  }
+  return parsed.data;
+}
+
+const deploymentPolicy = policyFromEnv();
+
+export function getDeploymentDedupPolicy(): DedupPolicy {
+  return deploymentPolicy;
+}
+
+// Deployment policy with a user's overrides applied (invalid overrides are ignored)
+export function resolveDedupPolicy(overrides?: Partial<DedupPolicy> | null): DedupPolicy {
+  if (!overrides) return deploymentPolicy;
+  const parsed = dedupPolicySchema.safeParse({ ...deploymentPolicy, ...overrides });
+  return parsed.success ? parsed.data : deploymentPolicy;
+}
+
+// Normalize title for comparison (remove special chars, lowercase, trim, policy prefix length)
+export function normalizeTitleForDedup(title: string, policy: DedupPolicy): string {
+  return title
+    .toLowerCase()
+    .replace(/[^\w\s가-힣]/g, '')
+    .trim()
+    .slice(0, policy.titlePrefixLength);
+}
+
+type DedupCandidate = Pick<InsertArticle, "source" | "publishedAt" | "content" | "description">;
+
+function sourceRank(source: string, policy: DedupPolicy): number {
+  const index = policy.preferredSources.indexOf(source);
+  return index === -1 ? policy.preferredSources.length : index;
+}
+
+/**
+ * Whether the policy keeps `candidate` over `current` when both are the same story
+ * Ties under "preferred_source" and "longest_content" fall back to the newest copy
+ */
+export function prefersCopy(candidate: DedupCandidate, current: DedupCandidate, policy: DedupPolicy): boolean {
+  const newer = new Date(candidate.publishedAt) > new Date(current.publishedAt);
+
+  switch (policy.keep) {
+    case "earliest":
+      return new Date(candidate.publishedAt) < new Date(current.publishedAt);
+    case "preferred_source": {
+      const difference = sourceRank(candidate.source, policy) - sourceRank(current.source, policy);
+      return difference !== 0 ? difference < 0 : newer;
+    }
+    case "longest_content": {
+      const length = (a: DedupCandidate) => (a.content || a.description || "").length;
+      const difference = length(candidate) - length(current);
+      return difference !== 0 ? difference > 0 : newer;
+    }
+    default:
+      return newer;
+  }
+}
+
+/**
+ * Re-deduplicate stored articles for one user's result page with their policy
+ * Uses the embeddings already stored on the rows; never calls an embedding provider
+ */
+export function dedupeResults(
+  articles: Article[],
+  policy: DedupPolicy,
+): { articles: Article[]; decisions: DedupDecision[] } {
+  const kept: Article[] = [];
+  const decisions: DedupDecision[] = [];
+
+  for (const article of articles) {
+    const title = normalizeTitleForDedup(article.title, policy);
+    const embedding = embeddingFromArticle(article);
+    let match: { index: number; reason: DedupDecision["reason"]; similarity: number | null } | null = null;
+
+    for (let index = 0; index < kept.length; index++) {
+      const other = kept[index];
+      if (title && normalizeTitleForDedup(other.title, policy) === title) {
+        match = { index, reason: "title", similarity: null };
+        break;
+      }
+      const otherEmbedding = embeddingFromArticle(other);
+      if (embedding && otherEmbedding && areArticlesSimilar(embedding, otherEmbedding, policy.similarityThreshold)) {
+        match = { index, reason: "embedding", similarity: cosineSimilarity(embedding.vector, otherEmbedding.vector) };
+        break;
+      }
+    }
+
+    if (!match) {
+      kept.push(article);
+      continue;
+    }
+
+    const current = kept[match.index];
+    const [winner, loser] = prefersCopy(article, current, policy) ? [article, current] : [current, article];
+    kept[match.index] = winner;
+    decisions.push({
+      stage: "results",
+      mergedUrl: loser.url,
+      mergedTitle: loser.title,
+      mergedSource: loser.source,
+      keptId: winner.id,
+      keptUrl: winner.url,
+      reason: match.reason,
+      similarity: match.similarity,
+    });
+  }
+
+  // Preserve the incoming order for the survivors
+  const survivors = new Set(kept);
+  return { articles: articles.filter((a) => survivors.has(a)), decisions };
+}
@@ -60,7 +60,8 @@ async function getUncachableSendGridClient() {
 
 // Reference: OpenAI blueprint - Initialize OpenAI client
 // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// Without a key (e.g. offline fixture runs) the PDF falls back to article descriptions
+const openai = process.env.OPENAI_API_KEY ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY }) : null;
 
 // Generate PDF summary of articles and save to disk
 export async function generateNewsPDF(
@@ -116,12 +117,13 @@ export async function generateNewsPDF(
           .fontSize(10)
           .font("Helvetica")
           .text(
-            `출처: ${article.source} | ${new Date(article.publishedAt).toLocaleString("ko-KR")}`,
+            `출처: ${article.publisher ? `${article.publisher} (${article.source})` : article.source} | ${new Date(article.publishedAt).toLocaleString("ko-KR")}`,
           );
         doc.moveDown(0.5);
 
-        // Use OpenAI to generate summary if description exists
-        if (article.description) {
+        // Use OpenAI to generate summary from the full text when extracted, else the description
+        const summarySource = article.content?.slice(0, 4000) || article.description;
+        if (summarySource && openai) {
           try {
             const summary = await openai.chat.completions.create({
               model: "gpt-4o-mini", // Using gpt-5-mini for cost-effective article summarization
@@ -133,14 +135,14 @@ export async function generateNewsPDF(
                 },
                 {
                   role: "user",
-                  content: `다음 뉴스 기사를 요약해주세요:\n\n제목: ${article.title}\n내용: ${article.description}`,
+                  content: `다음 뉴스 기사를 요약해주세요:\n\n제목: ${article.title}\n내용: ${summarySource}`,
                 },
               ],
               max_completion_tokens: 200,
             });
 
             const summaryText =
-              summary.choices[0].message.content || article.description;
+              summary.choices[0].message.content || article.description || summarySource;
             doc
               .fontSize(11)
               .font("Helvetica")
@@ -150,8 +152,13 @@ export async function generateNewsPDF(
             doc
               .fontSize(11)
               .font("Helvetica")
-              .text(article.description, { align: "justify" });
+              .text(article.description || summarySource.slice(0, 500), { align: "justify" });
           }
+        } else if (summarySource) {
+          doc
+            .fontSize(11)
+            .font("Helvetica")
+            .text(article.description || summarySource.slice(0, 500), { align: "justify" });
         }
 
         doc
@@ -0,0 +1,167 @@
+import pLimit from "p-limit";
+import type { EmbeddingJob } from "@shared/schema";
+import { storage } from "./storage";
+import { generateArticleEmbedding, generateEmbedding, getEmbeddingTarget } from "./embeddingService";
+
+/*
+ * Embedding backfill
+ * Finds articles stored without an embedding (the provider was down or not
+ * configured at ingest) or embedded with another provider/model than the one
+ * configured now, and regenerates them. Progress lives in embedding_jobs:
+ * articles are walked in id order and the cursor is saved after every batch,
+ * so a run stopped by a restart, a cancel or a provider outage picks up where
+ * it left off. Articles the provider rejects are counted as failed and skipped. Started from POST /api/admin/embeddings/backfill or
+ * `npm run embeddings:backfill`.
+ */
+
+const BACKFILL_BATCH_SIZE = 100;
+const BACKFILL_CONCURRENCY = Math.max(1, parseInt(process.env.EMBEDDING_BACKFILL_CONCURRENCY || "4", 10) || 4);
+// A running job whose heartbeat is older than this belongs to a process that died
+const STALE_JOB_MS = 5 * 60 * 1000;
+
+export interface EmbeddingBackfillOptions {
+  restart?: boolean; // Start a fresh run instead of resuming an unfinished one
+}
+
+// Job being processed by this process, if any
+let activeJobId: string | null = null;
+let cancelRequested = false;
+
+function isStale(job: EmbeddingJob): boolean {
+  return Date.now() - job.updatedAt.getTime() > STALE_JOB_MS;
+}
+
+/**
+ * Pick the job to run: the latest one if it is unfinished and targets the
+ * current provider/model, otherwise a new one
+ * Returns run = false when the latest job is still being processed (here or by another process)
+ */
+async function prepareJob(options: EmbeddingBackfillOptions): Promise<{ job: EmbeddingJob; run: boolean }> {
+  const target = getEmbeddingTarget();
+  if (!target) {
+    throw new Error("No embedding provider configured");
+  }
+
+  const latest = await storage.getLatestEmbeddingJob();
+  if (latest?.status === "running" && (latest.id === activeJobId || !isStale(latest))) {
+    return { job: latest, run: false };
+  }
+
+  const sameTarget = latest?.provider === target.provider && latest?.model === target.model;
+  if (latest && latest.status !== "completed" && sameTarget && !options.restart) {
+    const resumed = await storage.updateEmbeddingJob(latest.id, { status: "running", error: null, finishedAt: null });
+    return { job: resumed ?? latest, run: true };
+  }
+
+  if (latest?.status === "running") {
+    // Stale run for another target (or a forced restart); retire it before starting over
+    await storage.updateEmbeddingJob(latest.id, { status: "cancelled", finishedAt: new Date() });
+  }
+
+  const total = await storage.countArticlesNeedingEmbedding(target);
+  const job = await storage.createEmbeddingJob({ status: "running", ...target, total });
+  return { job, run: true };
+}
+
+// Whether the job's provider/model still answers, to tell an outage from articles it can't embed
+async function isProviderHealthy(job: EmbeddingJob): Promise<boolean> {
+  const probe = await generateEmbedding("embedding backfill health check");
+  return !!probe && probe.provider === job.provider && probe.model === job.model;
+}
+
+async function runJob(job: EmbeddingJob): Promise<EmbeddingJob> {
+  activeJobId = job.id;
+  cancelRequested = false;
+  const limit = pLimit(BACKFILL_CONCURRENCY);
+  const target = { provider: job.provider, model: job.model };
+  let { cursor, processed, failed } = job;
+
+  console.log(`[EmbeddingBackfill] ${cursor ? "Resuming" : "Starting"} job ${job.id} (${job.provider}/${job.model})`);
+
+  try {
+    for (;;) {
+      if (cancelRequested) {
+        console.log(`[EmbeddingBackfill] Job ${job.id} cancelled after ${processed} article(s)`);
+        return (await storage.updateEmbeddingJob(job.id, { status: "cancelled", finishedAt: new Date() })) ?? job;
+      }
+
+      const batch = await storage.getArticlesNeedingEmbedding(target, BACKFILL_BATCH_SIZE, cursor ?? undefined);
+      if (batch.length === 0) break;
+
+      const results = await Promise.all(batch.map((article) =>
+        limit(async () => {
+          const embedding = await generateArticleEmbedding(article.title, article.description, article.content);
+          // The provider could have been reconfigured since the job started
+          if (!embedding || embedding.provider !== job.provider || embedding.model !== job.model) {
+            return false;
+          }
+          await storage.setArticleEmbedding(article.id, embedding);
+          return true;
+        })
+      ));
+      const succeeded = results.filter(Boolean).length;
+
+      // A whole batch failing is usually an outage, but may be a run of articles the provider rejects
+      if (succeeded === 0 && !(await isProviderHealthy(job))) {
+        // Provider outage: stop without moving the cursor so the next run retries this batch
+        const error = `Embedding generation failed for a whole batch of ${batch.length} article(s)`;
+        console.error(`[EmbeddingBackfill] Job ${job.id}: ${error}`);
+        return (await storage.updateEmbeddingJob(job.id, { status: "failed", error, finishedAt: new Date() })) ?? job;
+      }
+
+      processed += succeeded;
+      failed += batch.length - succeeded;
+      cursor = batch[batch.length - 1].id;
+      await storage.updateEmbeddingJob(job.id, { cursor, processed, failed });
+      console.log(`[EmbeddingBackfill] Job ${job.id}: ${processed}/${job.total} embedded, ${failed} failed`);
+    }
+
+    console.log(`[EmbeddingBackfill] Job ${job.id} complete: ${processed} embedded, ${failed} failed`);
+    return (await storage.updateEmbeddingJob(job.id, { status: "completed", finishedAt: new Date() })) ?? job;
+  } catch (error) {
+    console.error(`[EmbeddingBackfill] Job ${job.id} failed:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    return (await storage.updateEmbeddingJob(job.id, { status: "failed", error: message, finishedAt: new Date() })) ?? job;
+  } finally {
+    activeJobId = null;
+  }
+}
+
+/**
+ * Start (or resume) a backfill in the background and return its job right away
+ * If a run is already in progress, that run's job is returned instead
+ */
+export async function startEmbeddingBackfill(options: EmbeddingBackfillOptions = {}): Promise<EmbeddingJob> {
+  const { job, run } = await prepareJob(options);
+  if (run) {
+    runJob(job).catch((error) => console.error("[EmbeddingBackfill] Error running job:", error));
+  }
+  return job;
+}
+
+/**
+ * Run (or resume) a backfill to the end, for the CLI
+ * Returns null when another process is already running one
+ */
+export async function runEmbeddingBackfill(options: EmbeddingBackfillOptions = {}): Promise<EmbeddingJob | null> {
+  const { job, run } = await prepareJob(options);
+  return run ? await runJob(job) : null;
+}
+
+// Stop this process's run after the current batch; false if nothing is running here
+export function cancelEmbeddingBackfill(): boolean {
+  if (!activeJobId) return false;
+  cancelRequested = true;
+  return true;
+}
+
+export async function getEmbeddingBackfillStatus(): Promise<EmbeddingJob | null> {
+  return (await storage.getLatestEmbeddingJob()) ?? null;
+}
+
+// Pick up a run left unfinished by a previous process (called at startup)
+export async function resumeInterruptedEmbeddingBackfill(): Promise<void> {
+  const latest = await storage.getLatestEmbeddingJob();
+  if (latest?.status !== "running" || !isStale(latest) || !getEmbeddingTarget()) return;
+  await startEmbeddingBackfill();
+}
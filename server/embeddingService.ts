@@ -1,27 +1,226 @@
 import OpenAI from "openai";
+import type { Article } from "@shared/schema";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY!,
-});
-
-/**
- * Generate embedding vector for text using OpenAI's embedding model
- * Uses text-embedding-3-small for cost-effectiveness and good performance
+/*
+ * Embedding providers for semantic deduplication
+ * EMBEDDING_PROVIDER selects one:
+ * - openai: text-embedding-3-small via the OpenAI API (default when OPENAI_API_KEY is set)
+ * - local: multilingual sentence-transformer run on CPU through transformers.js (ONNX), handles Korean
+ * - hashing: deterministic hashed word/bigram vectors, no model or network ("fake" is an alias)
+ * Every stored vector records its provider, model and dimension next to
+ * articles.embedding, so vectors from different models are never compared.
  */
-export async function generateEmbedding(text: string): Promise<number[] | null> {
-  try {
-    // Limit text length to avoid API limits (max 8191 tokens)
-    const truncatedText = text.slice(0, 8000);
-    
-    const response = await openai.embeddings.create({
-      model: "text-embedding-3-small",
-      input: truncatedText,
+
+export interface EmbeddingSpace {
+  provider: string;
+  model: string;
+  dimensions: number;
+}
+
+export interface ArticleEmbedding extends EmbeddingSpace {
+  vector: number[];
+}
+
+interface EmbeddingProvider {
+  id: string;
+  model: string;
+  // Maximum characters passed to embed()
+  maxInputLength: number;
+  embed(text: string): Promise<number[]>;
+}
+
+const OPENAI_EMBEDDING_MODEL = "text-embedding-3-small";
+const LOCAL_EMBEDDING_MODEL = "Xenova/paraphrase-multilingual-MiniLM-L12-v2"; // 384 dims, 50+ languages incl. Korean
+const HASHING_EMBEDDING_DIMENSIONS = 1536; // Same size as text-embedding-3-small
+
+// Cosine similarity at which two articles count as the same story
+export const SIMILARITY_THRESHOLD = 0.85;
+
+class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  id = "openai";
+  maxInputLength = 8000; // Stays under the 8191-token limit
+  private client: OpenAI;
+
+  constructor(apiKey: string, public model: string) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: text,
       encoding_format: "float",
     });
-
     return response.data[0].embedding;
+  }
+}
+
+type FeatureExtractor = (
+  text: string,
+  options: { pooling: "mean"; normalize: boolean },
+) => Promise<{ data: ArrayLike<number> }>;
+
+class LocalEmbeddingProvider implements EmbeddingProvider {
+  id = "local";
+  maxInputLength = 2000; // The model truncates to 128 tokens anyway
+  private extractor: Promise<FeatureExtractor> | null = null;
+
+  constructor(public model: string) {}
+
+  // Loaded on first use: importing transformers.js and the model download/load take seconds
+  private getExtractor(): Promise<FeatureExtractor> {
+    if (!this.extractor) {
+      this.extractor = import("@huggingface/transformers")
+        .then(({ pipeline }) => pipeline("feature-extraction", this.model, { dtype: "q8" }))
+        .then((extractor) => extractor as unknown as FeatureExtractor);
+      // Let a failed load be retried on the next call
+      this.extractor.catch(() => {
+        this.extractor = null;
+      });
+    }
+    return this.extractor;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const extractor = await this.getExtractor();
+    const output = await extractor(text, { pooling: "mean", normalize: true });
+    return Array.from(output.data);
+  }
+}
+
+class HashingEmbeddingProvider implements EmbeddingProvider {
+  id = "hashing";
+  model = `fnv1a-${HASHING_EMBEDDING_DIMENSIONS}`;
+  maxInputLength = 8000;
+
+  async embed(text: string): Promise<number[]> {
+    return hashedEmbedding(text);
+  }
+}
+
+function createEmbeddingProvider(): EmbeddingProvider | null {
+  const configured = (process.env.EMBEDDING_PROVIDER || "").trim().toLowerCase();
+
+  switch (configured) {
+    case "hashing":
+    case "fake":
+      return new HashingEmbeddingProvider();
+    case "local":
+      return new LocalEmbeddingProvider(process.env.EMBEDDING_MODEL || LOCAL_EMBEDDING_MODEL);
+    case "":
+    case "openai":
+      return process.env.OPENAI_API_KEY
+        ? new OpenAIEmbeddingProvider(process.env.OPENAI_API_KEY, process.env.EMBEDDING_MODEL || OPENAI_EMBEDDING_MODEL)
+        : null;
+    default:
+      console.warn(`[EmbeddingService] Unknown EMBEDDING_PROVIDER "${configured}", embeddings disabled`);
+      return null;
+  }
+}
+
+// Created on first use rather than at import, so env loading order doesn't matter
+let provider: EmbeddingProvider | null | undefined;
+
+function getProvider(): EmbeddingProvider | null {
+  if (provider === undefined) {
+    provider = createEmbeddingProvider();
+    if (provider) {
+      console.log(`[EmbeddingService] Using ${provider.id} embeddings (${provider.model})`);
+    }
+  }
+  return provider;
+}
+
+// Whether generateEmbedding can return vectors at all (semantic dedup is skipped otherwise)
+export function isEmbeddingAvailable(): boolean {
+  return getProvider() !== null;
+}
+
+// Provider and model new embeddings are generated with (dimensions are only known once a vector exists)
+export function getEmbeddingTarget(): Omit<EmbeddingSpace, "dimensions"> | null {
+  const embeddingProvider = getProvider();
+  return embeddingProvider ? { provider: embeddingProvider.id, model: embeddingProvider.model } : null;
+}
+
+// The embedding stored on an article row, if it has one
+export function embeddingFromArticle(article: Pick<
+  Article,
+  "embedding" | "embeddingProvider" | "embeddingModel" | "embeddingDimensions"
+>): ArticleEmbedding | null {
+  if (!article.embedding || !article.embeddingProvider || !article.embeddingModel || !article.embeddingDimensions) {
+    return null;
+  }
+  return {
+    provider: article.embeddingProvider,
+    model: article.embeddingModel,
+    dimensions: article.embeddingDimensions,
+    vector: article.embedding,
+  };
+}
+
+// Two embeddings may only be compared when they come from the same provider, model and size
+export function isSameEmbeddingSpace(a: EmbeddingSpace, b: EmbeddingSpace): boolean {
+  return a.provider === b.provider && a.model === b.model && a.dimensions === b.dimensions;
+}
+
+// 32-bit FNV-1a, stable across runs and platforms
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic stand-in for a real embedding: words and Hangul character
+ * bigrams (Korean words carry attached particles) are hashed into a fixed-size
+ * vector, so texts sharing vocabulary get a high cosine similarity
+ */
+export function hashedEmbedding(text: string): number[] {
+  const vector = new Array<number>(HASHING_EMBEDDING_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().match(/[a-z0-9]+|[가-힣]+/g) || [];
+
+  const features: string[] = [];
+  for (const word of words) {
+    features.push(word);
+    if (/^[가-힣]{3,}$/.test(word)) {
+      for (let i = 0; i < word.length - 1; i++) {
+        features.push(word.slice(i, i + 2));
+      }
+    }
+  }
+
+  for (const feature of features) {
+    const hash = fnv1a(feature);
+    vector[hash % HASHING_EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+/**
+ * Generate an embedding vector for text with the configured provider
+ * Returns null when no provider is configured or the provider fails
+ */
+export async function generateEmbedding(text: string): Promise<ArticleEmbedding | null> {
+  const embeddingProvider = getProvider();
+  if (!embeddingProvider) {
+    return null;
+  }
+
+  try {
+    const vector = await embeddingProvider.embed(text.slice(0, embeddingProvider.maxInputLength));
+    return {
+      provider: embeddingProvider.id,
+      model: embeddingProvider.model,
+      dimensions: vector.length,
+      vector,
+    };
   } catch (error) {
-    console.error("[EmbeddingService] Error generating embedding:", error);
+    console.error(`[EmbeddingService] Error generating ${embeddingProvider.id} embedding:`, error);
     return null;
   }
 }
@@ -56,32 +255,38 @@ export function cosineSimilarity(vecA: number[], vecB: number[]): number {
 
 /**
  * Check if two articles are semantically similar based on their embeddings
+ * Embeddings from different providers/models are never considered similar
  * @param embedding1 First article embedding
  * @param embedding2 Second article embedding
- * @param threshold Similarity threshold (default 0.85 for high similarity)
+ * @param threshold Similarity threshold (default SIMILARITY_THRESHOLD)
  * @returns true if articles are semantically similar
  */
 export function areArticlesSimilar(
-  embedding1: number[],
-  embedding2: number[],
-  threshold: number = 0.85
+  embedding1: ArticleEmbedding,
+  embedding2: ArticleEmbedding,
+  threshold: number = SIMILARITY_THRESHOLD
 ): boolean {
-  const similarity = cosineSimilarity(embedding1, embedding2);
+  if (!isSameEmbeddingSpace(embedding1, embedding2)) {
+    return false;
+  }
+  const similarity = cosineSimilarity(embedding1.vector, embedding2.vector);
   return similarity >= threshold;
 }
 
 /**
- * Generate embedding for an article based on title and description
- * Combines title and description for better semantic representation
+ * Generate embedding for an article based on title, description and full text
+ * Combines the available fields for better semantic representation
  */
 export async function generateArticleEmbedding(
   title: string,
-  description: string | null
-): Promise<number[] | null> {
-  // Combine title and description for richer semantic meaning
-  const textToEmbed = description
-    ? `${title}\n\n${description}`
-    : title;
+  description: string | null,
+  content: string | null = null
+): Promise<ArticleEmbedding | null> {
+  // Combine title, description and the start of the body for richer semantic meaning
+  // (the lead paragraphs carry most of a news article's meaning)
+  const textToEmbed = [title, description, content?.slice(0, 2000)]
+    .filter(Boolean)
+    .join("\n\n");
 
   return generateEmbedding(textToEmbed);
 }
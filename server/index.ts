@@ -3,6 +3,12 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { setupWebSocketServer } from "./websocket";
 import { startBreakingNewsMonitor } from "./notificationService";
+import { startRssPoller } from "./newsService";
+import { startCrawler } from "./crawler";
+import { isFixtureReplay } from "./newsFixtures";
+import { storage } from "./storage";
+import { backfillCanonicalUrls } from "./urlCanonicalizer";
+import { resumeInterruptedEmbeddingBackfill } from "./embeddingBackfill";
 
 const app = express();
 app.use(express.json());
@@ -55,6 +61,42 @@ app.use((req, res, next) => {
   // Start breaking news monitoring service
   startBreakingNewsMonitor();
 
+  // Background ingestion only makes sense against live sources, so fixture replay skips it
+  if (isFixtureReplay()) {
+    log("Replaying news fixtures: RSS poller and crawler disabled");
+  } else {
+    // Start RSS/Atom feed ingestion
+    startRssPoller();
+
+    // Start background crawler for tracked keywords
+    startCrawler();
+  }
+
+  // Move embeddings stored as jsonb into the pgvector column
+  storage.backfillEmbeddingVectors()
+    .then((count) => {
+      if (count > 0) log(`Backfilled ${count} article embeddings into pgvector`);
+    })
+    .catch((error) => console.error("[Startup] Error backfilling embedding vectors:", error));
+
+  // Index articles stored before full-text search
+  storage.backfillSearchVectors()
+    .then((count) => {
+      if (count > 0) log(`Backfilled ${count} article search vectors`);
+    })
+    .catch((error) => console.error("[Startup] Error backfilling search vectors:", error));
+
+  // Fill canonical URLs for articles stored before URL canonicalization
+  backfillCanonicalUrls()
+    .then((count) => {
+      if (count > 0) log(`Backfilled ${count} canonical article URLs`);
+    })
+    .catch((error) => console.error("[Startup] Error backfilling canonical URLs:", error));
+
+  // Continue an embedding backfill cut short by the last restart
+  resumeInterruptedEmbeddingBackfill()
+    .catch((error) => console.error("[Startup] Error resuming embedding backfill:", error));
+
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
   // doesn't interfere with the other routes
@@ -0,0 +1,161 @@
+import type { InsertArticle, CacheStats } from "@shared/schema";
+import { storage } from "./storage";
+
+/*
+ * Response cache for external news source calls
+ * searchNews consults this before calling a source, keyed by
+ * (source, keyword, date range, sort), with a TTL chosen per
+ * source. The default store is in-process memory; NEWS_CACHE_STORE=postgres
+ * keeps entries in the source_cache table so they survive restarts.
+ */
+
+export interface NewsCacheKeyParts {
+  sourceId: string;
+  keyword: string; // Canonical query (queryParser.canonicalQuery), case already normalized
+  startDate?: string;
+  endDate?: string;
+  sort?: string;
+}
+
+interface CacheStore {
+  get(key: string): Promise<InsertArticle[] | undefined>;
+  set(key: string, sourceId: string, articles: InsertArticle[], ttlMs: number): Promise<void>;
+}
+
+const MEMORY_CACHE_MAX_ENTRIES = 1000;
+
+class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { expiresAt: number; articles: InsertArticle[] }>();
+
+  async get(key: string): Promise<InsertArticle[] | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.articles;
+  }
+
+  async set(key: string, _sourceId: string, articles: InsertArticle[], ttlMs: number): Promise<void> {
+    // Map iteration order is insertion order, so the first key is the oldest entry
+    if (this.entries.size >= MEMORY_CACHE_MAX_ENTRIES && !this.entries.has(key)) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    this.entries.set(key, { expiresAt: Date.now() + ttlMs, articles });
+  }
+}
+
+class PostgresCacheStore implements CacheStore {
+  async get(key: string): Promise<InsertArticle[] | undefined> {
+    const entry = await storage.getSourceCacheEntry(key);
+    if (!entry) return undefined;
+    // Dates come back from jsonb as ISO strings
+    return (entry.articles as InsertArticle[]).map((article) => ({
+      ...article,
+      publishedAt: new Date(article.publishedAt),
+    }));
+  }
+
+  async set(key: string, sourceId: string, articles: InsertArticle[], ttlMs: number): Promise<void> {
+    // Embeddings are regenerated on ingest; don't store them twice
+    const slim = articles.map(({ embedding, embeddingProvider, embeddingModel, embeddingDimensions, ...rest }) => rest);
+    await storage.setSourceCacheEntry({
+      key,
+      sourceId,
+      articles: slim,
+      expiresAt: new Date(Date.now() + ttlMs),
+    });
+  }
+}
+
+const storeType: CacheStats["store"] = process.env.NEWS_CACHE_STORE === "postgres" ? "postgres" : "memory";
+const store: CacheStore = storeType === "postgres" ? new PostgresCacheStore() : new MemoryCacheStore();
+
+const stats = {
+  hits: 0,
+  misses: 0,
+  bypassed: 0,
+  bySource: {} as Record<string, { hits: number; misses: number }>,
+};
+
+function sourceStats(sourceId: string) {
+  if (!stats.bySource[sourceId]) {
+    stats.bySource[sourceId] = { hits: 0, misses: 0 };
+  }
+  return stats.bySource[sourceId];
+}
+
+export function buildCacheKey(parts: NewsCacheKeyParts): string {
+  return [
+    parts.sourceId,
+    parts.keyword.trim(),
+    parts.startDate || "",
+    parts.endDate || "",
+    parts.sort || "date",
+  ].join("|");
+}
+
+/**
+ * Look up a cached source response
+ * Cache failures (e.g. the database being unreachable) count as misses
+ */
+export async function getCachedArticles(key: string, sourceId: string): Promise<InsertArticle[] | undefined> {
+  let articles: InsertArticle[] | undefined;
+  try {
+    articles = await store.get(key);
+  } catch (error) {
+    console.error("[NewsCache] Error reading cache:", error);
+  }
+
+  if (articles) {
+    stats.hits++;
+    sourceStats(sourceId).hits++;
+  } else {
+    stats.misses++;
+    sourceStats(sourceId).misses++;
+  }
+  return articles;
+}
+
+export async function setCachedArticles(
+  key: string,
+  sourceId: string,
+  articles: InsertArticle[],
+  ttlMs: number,
+): Promise<void> {
+  if (ttlMs <= 0) return;
+  try {
+    await store.set(key, sourceId, articles, ttlMs);
+  } catch (error) {
+    console.error("[NewsCache] Error writing cache:", error);
+  }
+}
+
+// Count a search that skipped the cache (an admin's ?refresh=true)
+export function recordCacheBypass(): void {
+  stats.bypassed++;
+}
+
+export function getCacheStats(): CacheStats {
+  const lookups = stats.hits + stats.misses;
+  return {
+    store: storeType,
+    hits: stats.hits,
+    misses: stats.misses,
+    bypassed: stats.bypassed,
+    hitRate: lookups > 0 ? stats.hits / lookups : null,
+    bySource: stats.bySource,
+  };
+}
+
+// Remove expired rows from the persistent store (memory entries expire lazily)
+export async function pruneNewsCache(): Promise<void> {
+  if (storeType !== "postgres") return;
+  try {
+    await storage.deleteExpiredSourceCacheEntries();
+  } catch (error) {
+    console.error("[NewsCache] Error pruning cache:", error);
+  }
+}
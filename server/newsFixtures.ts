@@ -0,0 +1,100 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash } from "crypto";
+
+/*
+ * Recorded source responses for offline development
+ * NEWS_FIXTURES_DIR points at a directory of JSON files, one per recorded API
+ * request. With NEWS_FIXTURES_MODE=record the live NewsAPI/Naver adapters
+ * write every raw response there; otherwise (replay, the default) the
+ * "fixtures" news source serves them back through the same mapping code, so
+ * searchNews -> deduplicateArticles -> createArticle runs with no network.
+ */
+
+export type FixtureProvider = "naver" | "newsapi";
+
+export interface NewsFixture {
+  provider: FixtureProvider;
+  keyword: string;
+  params: Record<string, unknown>; // Request parameters, minus credentials
+  recordedAt: string;
+  response: any; // Raw JSON body as returned by the API
+}
+
+export function getFixturesDir(): string | null {
+  const dir = process.env.NEWS_FIXTURES_DIR;
+  return dir ? path.resolve(dir) : null;
+}
+
+export function isFixtureRecording(): boolean {
+  return !!getFixturesDir() && process.env.NEWS_FIXTURES_MODE === "record";
+}
+
+export function isFixtureReplay(): boolean {
+  return !!getFixturesDir() && process.env.NEWS_FIXTURES_MODE !== "record";
+}
+
+// naver-삼성전자-1a2b3c4d.json: keyword slug plus a hash of the request parameters
+function fixtureFileName(provider: FixtureProvider, keyword: string, params: Record<string, unknown>): string {
+  const slug = keyword.trim().toLowerCase().replace(/[^\w가-힣]+/g, "-").replace(/^-+|-+$/g, "") || "query";
+  const hash = createHash("sha1").update(JSON.stringify(params)).digest("hex").slice(0, 8);
+  return `${provider}-${slug}-${hash}.json`;
+}
+
+/**
+ * Save a raw API response as a fixture (record mode only)
+ * Never throws - a failed write must not fail the live search
+ */
+export async function recordFixture(
+  provider: FixtureProvider,
+  keyword: string,
+  params: Record<string, unknown>,
+  response: any,
+): Promise<void> {
+  const dir = getFixturesDir();
+  if (!dir || !isFixtureRecording()) return;
+
+  const fixture: NewsFixture = {
+    provider,
+    keyword,
+    params,
+    recordedAt: new Date().toISOString(),
+    response,
+  };
+
+  try {
+    await fs.mkdir(dir, { recursive: true });
+    const file = path.join(dir, fixtureFileName(provider, keyword, params));
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2) + "\n", "utf-8");
+    console.log(`[NewsFixtures] Recorded ${provider} response for "${keyword}" to ${file}`);
+  } catch (error) {
+    console.error("[NewsFixtures] Error recording fixture:", error);
+  }
+}
+
+// Read every fixture file in the directory (files that fail to parse are skipped)
+export async function loadFixtures(): Promise<NewsFixture[]> {
+  const dir = getFixturesDir();
+  if (!dir) return [];
+
+  let files: string[];
+  try {
+    files = (await fs.readdir(dir)).filter((file) => file.endsWith(".json")).sort();
+  } catch (error) {
+    console.error(`[NewsFixtures] Cannot read fixtures directory ${dir}:`, error);
+    return [];
+  }
+
+  const fixtures: NewsFixture[] = [];
+  for (const file of files) {
+    try {
+      const fixture = JSON.parse(await fs.readFile(path.join(dir, file), "utf-8"));
+      if (fixture.provider === "naver" || fixture.provider === "newsapi") {
+        fixtures.push(fixture);
+      }
+    } catch (error: any) {
+      console.error(`[NewsFixtures] Skipping invalid fixture ${file}:`, error.message);
+    }
+  }
+  return fixtures;
+}
@@ -22,6 +22,7 @@ async function checkBreakingNewsForSubscription(subscriptionId: string, userId:
         const results = await searchNews({
           keyword,
           startDate: lastCheck.toISOString().split('T')[0], // YYYY-MM-DD format
+          priority: "monitor",
         });
         articles.push(...results);
       } catch (error) {
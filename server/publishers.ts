@@ -0,0 +1,88 @@
+/*
+ * Publisher (press outlet) resolution
+ * articles.source records the aggregator we fetched from ("naver", "newsapi");
+ * articles.publisher records who actually wrote the story. Known outlet
+ * domains map to their canonical names so the same outlet is spelled the same
+ * way regardless of which aggregator delivered it.
+ */
+
+// Registrable domain -> outlet name. Subdomains (news.*, m.*, biz.*) match their parent
+// unless listed separately.
+export const PUBLISHER_DOMAINS: Record<string, string> = {
+  "yna.co.kr": "연합뉴스",
+  "yonhapnewstv.co.kr": "연합뉴스TV",
+  "hani.co.kr": "한겨레",
+  "chosun.com": "조선일보",
+  "biz.chosun.com": "조선비즈",
+  "joongang.co.kr": "중앙일보",
+  "donga.com": "동아일보",
+  "khan.co.kr": "경향신문",
+  "hankookilbo.com": "한국일보",
+  "seoul.co.kr": "서울신문",
+  "kmib.co.kr": "국민일보",
+  "segye.com": "세계일보",
+  "munhwa.com": "문화일보",
+  "hankyung.com": "한국경제",
+  "mk.co.kr": "매일경제",
+  "sedaily.com": "서울경제",
+  "mt.co.kr": "머니투데이",
+  "edaily.co.kr": "이데일리",
+  "asiae.co.kr": "아시아경제",
+  "heraldcorp.com": "헤럴드경제",
+  "fnnews.com": "파이낸셜뉴스",
+  "dt.co.kr": "디지털타임스",
+  "etnews.com": "전자신문",
+  "zdnet.co.kr": "지디넷코리아",
+  "bloter.net": "블로터",
+  "newsis.com": "뉴시스",
+  "news1.kr": "뉴스1",
+  "nocutnews.co.kr": "노컷뉴스",
+  "ohmynews.com": "오마이뉴스",
+  "pressian.com": "프레시안",
+  "kbs.co.kr": "KBS",
+  "imbc.com": "MBC",
+  "sbs.co.kr": "SBS",
+  "jtbc.co.kr": "JTBC",
+  "ytn.co.kr": "YTN",
+  "mbn.co.kr": "MBN",
+  "ichannela.com": "채널A",
+  "koreaherald.com": "The Korea Herald",
+  "koreatimes.co.kr": "The Korea Times",
+  "koreajoongangdaily.joins.com": "Korea JoongAng Daily",
+};
+
+function hostnameOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+// Look up the outlet for a URL, trying the full hostname and then each parent domain
+export function publisherFromDomain(url: string): string | null {
+  const hostname = hostnameOf(url);
+  if (!hostname) return null;
+
+  const labels = hostname.split(".");
+  for (let i = 0; i < labels.length - 1; i++) {
+    const candidate = labels.slice(i).join(".");
+    if (PUBLISHER_DOMAINS[candidate]) {
+      return PUBLISHER_DOMAINS[candidate];
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve a publisher name for an article
+ * Prefers the mapping table, then the name the source reported (NewsAPI
+ * source.name, og:site_name, RSS channel title), then the bare hostname
+ */
+export function resolvePublisher(url: string, reportedName?: string | null): string | null {
+  return publisherFromDomain(url) || reportedName?.trim() || hostnameOf(url);
+}
+
+export function getKnownPublishers(): string[] {
+  return Array.from(new Set(Object.values(PUBLISHER_DOMAINS)));
+}
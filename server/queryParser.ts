@@ -0,0 +1,331 @@
+import type { InsertArticle } from "@shared/schema";
+
+/*
+ * Search query language
+ * Keywords (searches and subscription keywords) may use:
+ *   "exact phrase"      quoted phrase
+ *   a AND b, a b        both terms (juxtaposition is an implicit AND)
+ *   a OR b, a | b       either term (binds looser than AND)
+ *   NOT a, -a           exclude a term or group
+ *   ( ... )             grouping
+ *   site:example.com    only articles from that domain (and its subdomains)
+ * Operators must be uppercase, so "or" and "not" stay ordinary words. Parsing is
+ * lenient: unbalanced quotes/parentheses are closed and stray operators ignored.
+ *
+ * The AST is translated into each source's native syntax (formatQuery), into
+ * SQL for the stored archive (storage.buildArticleConditions), and evaluated
+ * directly (matchesQuery) to post-filter sources that can't express all of it.
+ */
+
+export type QueryNode =
+  | { type: "term"; value: string; phrase: boolean }
+  | { type: "site"; domain: string }
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode };
+
+// Operator support of a source's query syntax
+export interface QueryDialect {
+  and: string; // Separator between ANDed operands
+  or: string | null; // Separator between ORed operands (null = unsupported)
+  not: "NOT" | "-" | null; // "NOT x", "-x", or unsupported
+  phrase: boolean; // "quoted phrases"
+  grouping: boolean; // Parenthesized sub-expressions
+  site: boolean; // site:domain
+}
+
+// A query translated for one source; exact = false when parts had to be dropped
+export interface FormattedQuery {
+  text: string | null; // null = nothing the source can search for
+  exact: boolean;
+}
+
+// Sources without a dialect get the positive words only
+export const PLAIN_DIALECT: QueryDialect = { and: " ", or: null, not: null, phrase: false, grouping: false, site: false };
+export const NEWSAPI_DIALECT: QueryDialect = { and: " AND ", or: " OR ", not: "NOT", phrase: true, grouping: true, site: false };
+export const BING_DIALECT: QueryDialect = { and: " ", or: " OR ", not: "-", phrase: true, grouping: true, site: true };
+// Naver documents no OR or grouping, but honours quotes and -exclusions
+export const NAVER_DIALECT: QueryDialect = { and: " ", or: null, not: "-", phrase: true, grouping: false, site: false };
+// Our own full syntax, used for canonical keys
+const CANONICAL_DIALECT: QueryDialect = { and: " ", or: " OR ", not: "-", phrase: true, grouping: true, site: true };
+
+type Token =
+  | { type: "lparen" | "rparen" | "and" | "or" | "not" }
+  | { type: "term"; value: string; phrase: boolean }
+  | { type: "site"; domain: string };
+
+const OPERATORS: Record<string, Token["type"]> = { AND: "and", OR: "or", NOT: "not", "|": "or", "&&": "and", "||": "or" };
+const WORD_BREAK = /[\s()"]/;
+
+// Bare host from "site:https://www.example.com/path"
+function siteDomain(value: string): string {
+  return value.toLowerCase().replace(/^[a-z]+:\/\//, "").replace(/^www\./, "").split(/[/?#:]/)[0];
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  const text = input.normalize("NFC");
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: char === "(" ? "lparen" : "rparen" });
+      i++;
+    } else if (char === '"') {
+      const close = text.indexOf('"', i + 1);
+      const end = close === -1 ? text.length : close;
+      const value = text.slice(i + 1, end).replace(/\s+/g, " ").trim();
+      if (value) tokens.push({ type: "term", value, phrase: true });
+      i = end + 1;
+    } else if (char === "-" && i + 1 < text.length && !/\s/.test(text[i + 1])) {
+      tokens.push({ type: "not" });
+      i++;
+    } else {
+      let end = i;
+      while (end < text.length && !WORD_BREAK.test(text[end])) end++;
+      const word = text.slice(i, end);
+      i = end;
+
+      const site = /^site:(.+)$/i.exec(word);
+      if (OPERATORS[word]) {
+        tokens.push({ type: OPERATORS[word] } as Token);
+      } else if (site && siteDomain(site[1])) {
+        tokens.push({ type: "site", domain: siteDomain(site[1]) });
+      } else {
+        tokens.push({ type: "term", value: word, phrase: false });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+// Merge nested nodes of the same kind and unwrap single-child groups
+function combine(type: "and" | "or", nodes: QueryNode[]): QueryNode | null {
+  const children = nodes.flatMap((node) => (node.type === type ? node.children : [node]));
+  if (children.length === 0) return null;
+  return children.length === 1 ? children[0] : { type, children };
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): QueryNode | null {
+    const parts: QueryNode[] = [];
+    while (this.pos < this.tokens.length) {
+      const node = this.parseOr();
+      if (node) parts.push(node);
+      if (this.peek()?.type === "rparen") this.pos++; // Stray ")"
+    }
+    return combine("and", parts);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private parseOr(): QueryNode | null {
+    const branches: QueryNode[] = [];
+    const first = this.parseAnd();
+    if (first) branches.push(first);
+    while (this.peek()?.type === "or") {
+      this.pos++;
+      const next = this.parseAnd();
+      if (next) branches.push(next);
+    }
+    return combine("or", branches);
+  }
+
+  private parseAnd(): QueryNode | null {
+    const operands: QueryNode[] = [];
+    for (let token = this.peek(); token && token.type !== "rparen" && token.type !== "or"; token = this.peek()) {
+      if (token.type === "and") {
+        this.pos++;
+        continue;
+      }
+      const node = this.parseUnary();
+      if (node) operands.push(node);
+    }
+    return combine("and", operands);
+  }
+
+  private parseUnary(): QueryNode | null {
+    const token = this.tokens[this.pos++];
+    switch (token.type) {
+      case "not": {
+        const next = this.peek();
+        if (!next || next.type === "rparen" || next.type === "or" || next.type === "and") return null;
+        const child = this.parseUnary();
+        if (!child) return null;
+        return child.type === "not" ? child.child : { type: "not", child };
+      }
+      case "lparen": {
+        const node = this.parseOr();
+        if (this.peek()?.type === "rparen") this.pos++;
+        return node;
+      }
+      case "term":
+        return { type: "term", value: token.value, phrase: token.phrase };
+      case "site":
+        return { type: "site", domain: token.domain };
+      default:
+        return null;
+    }
+  }
+}
+
+// Whether the node can only match by containing something (not just by excluding)
+function hasPositiveClause(node: QueryNode): boolean {
+  switch (node.type) {
+    case "term":
+    case "site":
+      return true;
+    case "not":
+      return false;
+    case "and":
+      return node.children.some(hasPositiveClause);
+    case "or":
+      return node.children.every(hasPositiveClause);
+  }
+}
+
+/**
+ * Parse a search query into its AST
+ * Returns null when there is nothing to search for: an empty query, or one that
+ * only excludes ("-중고", "a OR -b") and so would match nearly everything.
+ */
+export function parseSearchQuery(input: string): QueryNode | null {
+  const node = new Parser(tokenize(input)).parse();
+  return node && hasPositiveClause(node) ? node : null;
+}
+
+// Terms the query asks for (not under a NOT), for ranking and highlighting
+export function positiveTerms(node: QueryNode): Array<{ value: string; phrase: boolean }> {
+  switch (node.type) {
+    case "term":
+      return [{ value: node.value, phrase: node.phrase }];
+    case "site":
+    case "not":
+      return [];
+    case "and":
+    case "or":
+      return node.children.flatMap(positiveTerms);
+  }
+}
+
+interface FormattedNode extends FormattedQuery {
+  compound: boolean; // Text joins several operands, so it needs parentheses as an operand
+}
+
+function formatNode(node: QueryNode, dialect: QueryDialect, lowercase: boolean): FormattedNode {
+  const dropped: FormattedNode = { text: null, exact: false, compound: false };
+
+  switch (node.type) {
+    case "term": {
+      const value = lowercase ? node.value.toLowerCase() : node.value;
+      if (node.phrase && dialect.phrase) return { text: `"${value.replace(/"/g, "")}"`, exact: true, compound: false };
+      // Unquoted phrase words: still required, but no longer adjacent
+      const words = value.split(" ");
+      return { text: words.join(dialect.and), exact: words.length === 1, compound: words.length > 1 };
+    }
+    case "site":
+      return dialect.site ? { text: `site:${node.domain}`, exact: true, compound: false } : dropped;
+    case "not": {
+      if (!dialect.not) return dropped;
+      const child = formatNode(node.child, dialect, lowercase);
+      // Excluding only part of the child would exclude too much, so drop it entirely
+      if (child.text === null || !child.exact) return dropped;
+      if (child.compound && !dialect.grouping) return dropped;
+      const operand = child.compound ? `(${child.text})` : child.text;
+      return { text: dialect.not === "NOT" ? `NOT ${operand}` : `-${operand}`, exact: true, compound: false };
+    }
+    case "and":
+    case "or": {
+      const separator = node.type === "and" ? dialect.and : dialect.or;
+      if (separator === null) return dropped;
+      const parts = node.children.map((child) => formatNode(child, dialect, lowercase));
+      // A dropped OR branch can't be searched for without losing its matches
+      if (node.type === "or" && parts.some((part) => part.text === null)) return dropped;
+
+      const operands: string[] = [];
+      let exact = parts.every((part) => part.exact);
+      for (const part of parts) {
+        if (part.text === null) continue;
+        if (!part.compound) {
+          operands.push(part.text);
+        } else if (dialect.grouping) {
+          operands.push(`(${part.text})`);
+        } else if (node.type === "and" && dialect.and === separator) {
+          operands.push(part.text); // Unquoted phrase words read the same ungrouped
+        } else {
+          exact = false;
+        }
+      }
+      if (operands.length === 0) return dropped;
+      if (node.type === "or" && operands.length < parts.length) return dropped;
+      return { text: operands.join(separator), exact, compound: operands.length > 1 };
+    }
+  }
+}
+
+/**
+ * Translate a query into a source's native syntax
+ * Unsupported parts are relaxed so the source returns a superset: dropped from
+ * an AND, or the whole OR/NOT around them dropped. exact = false tells the
+ * caller to post-filter the results with matchesQuery.
+ */
+export function formatQuery(node: QueryNode, dialect: QueryDialect = PLAIN_DIALECT): FormattedQuery {
+  const { text, exact } = formatNode(node, dialect, false);
+  return { text, exact };
+}
+
+// Normalized query text: lowercased terms, uppercase operators ("AI OR  ml" → "ai OR ml")
+export function canonicalQuery(node: QueryNode): string {
+  return formatNode(node, CANONICAL_DIALECT, true).text || "";
+}
+
+function articleHost(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Evaluate a query against an article's text and URLs
+ * Terms match case-insensitive substrings, like the archive's fallback search;
+ * site: matches the source URL or the publisher's canonical URL
+ */
+export function matchesQuery(
+  article: Pick<InsertArticle, "title" | "description" | "url"> & { content?: string | null; canonicalUrl?: string | null },
+  node: QueryNode,
+): boolean {
+  const text = `${article.title} ${article.description || ""} ${article.content || ""}`
+    .normalize("NFC")
+    .replace(/\s+/g, " ")
+    .toLowerCase();
+  const hosts = [article.url, article.canonicalUrl].filter((url): url is string => !!url).map(articleHost);
+
+  const evaluate = (current: QueryNode): boolean => {
+    switch (current.type) {
+      case "term":
+        return text.includes(current.value.toLowerCase());
+      case "site":
+        return hosts.some((host) => host === current.domain || host.endsWith(`.${current.domain}`));
+      case "not":
+        return !evaluate(current.child);
+      case "and":
+        return current.children.every(evaluate);
+      case "or":
+        return current.children.some(evaluate);
+    }
+  };
+
+  return evaluate(node);
+}
@@ -128,6 +128,20 @@ export async function setupAuth(app: Express) {
   });
 }
 
+// Admins are the user ids listed in ADMIN_USER_IDS (comma-separated)
+export function isAdminUser(userId: string | undefined): boolean {
+  const adminIds = (process.env.ADMIN_USER_IDS || "").split(",").map((id) => id.trim()).filter(Boolean);
+  return !!userId && adminIds.includes(userId);
+}
+
+// Admin-only routes. Use after isAuthenticated.
+export const isAdmin: RequestHandler = (req, res, next) => {
+  if (!isAdminUser((req.user as any)?.claims?.sub)) {
+    return res.status(403).json({ message: "Forbidden" });
+  }
+  next();
+};
+
 export const isAuthenticated: RequestHandler = async (req, res, next) => {
   const user = req.user as any;
 
@@ -2,11 +2,47 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { join } from "path";
-import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
-import { searchNews, getTrendingTopics } from "./newsService";
-import { insertSubscriptionSchema, insertUserPreferencesSchema, insertBookmarkSchema } from "@shared/schema";
+import { storage, type ArticleCursor } from "./storage";
+import { setupAuth, isAuthenticated, isAdmin, isAdminUser } from "./replitAuth";
+import {
+  searchNewsWithDecisions,
+  getTrendingTopics,
+  getNewsSource,
+  getNewsSourceInfo,
+  getSourceHealthReport,
+  getQuotaReport,
+  getUnavailableSources,
+  searchUserFeeds,
+  fetchFeed,
+} from "./newsService";
+import { type Article, type ArticleWithStory, type DedupDecision, type SemanticSearchArticle, type SearchResultArticle, type SearchSession, type StoryDetail, insertSubscriptionSchema, insertUserPreferencesSchema, insertBookmarkSchema, insertUserFeedSchema, newsSortModes, type NewsSortMode } from "@shared/schema";
 import { setupScheduler } from "./scheduler";
+import { getKnownPublishers } from "./publishers";
+import { normalizeKeyword } from "./crawler";
+import { parseSearchQuery, positiveTerms } from "./queryParser";
+import { getCacheStats, recordCacheBypass } from "./newsCache";
+import { dedupeResults, resolveDedupPolicy } from "./dedupPolicy";
+import { isEmbeddingAvailable } from "./embeddingService";
+import { semanticSearch } from "./semanticSearch";
+import { highlightArticle } from "./textSearch";
+import { assertPublicUrl } from "./urlSafety";
+import { createSearchSession, decodeCursor, encodeCursor, getSearchSession, sessionSearchParams } from "./searchSessions";
+import { getRelatedArticles } from "./storyClusters";
+import { cancelEmbeddingBackfill, getEmbeddingBackfillStatus, startEmbeddingBackfill } from "./embeddingBackfill";
+
+const MAX_DEDUP_REFILLS = 3; // Extra archive reads to top up a page the user's dedup policy shrank
+
+// How many outlets cover each article's story ("N sources covering this" on the card)
+async function withStoryCounts<T extends Article>(articles: T[]): Promise<(T & ArticleWithStory)[]> {
+  const clusterIds = Array.from(new Set(articles.map((a) => a.clusterId).filter((id): id is string => !!id)));
+  const clusterSizes = new Map(
+    (await storage.getStoryClustersByIds(clusterIds)).map((cluster) => [cluster.id, cluster.articleCount])
+  );
+  return articles.map((article) => ({
+    ...article,
+    storyArticleCount: article.clusterId ? clusterSizes.get(article.clusterId) : undefined,
+  }));
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware setup
@@ -27,13 +63,212 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // News search endpoint with pagination
-  app.get("/api/news/search", async (req, res) => {
+  // News search endpoint: answers from the stored archive (kept fresh by the
+  // background crawler); only never-seen keywords trigger a live fetch. The first
+  // request opens a search session and later pages pass its cursor, paging through
+  // a stable snapshot of the archive without refetching (see searchSessions.ts).
+  app.get("/api/news/search", async (req: any, res) => {
+    try {
+      const { cursor, pageSize = "20" } = req.query;
+
+      const size = parseInt(pageSize as string, 10);
+      if (isNaN(size) || size < 1 || size > 100) {
+        return res.status(400).json({ message: "Invalid page size (1-100)" });
+      }
+
+      // Logged-in users also search their own custom feeds and may override the dedup policy
+      const userId: string | undefined = req.isAuthenticated() ? req.user?.claims?.sub : undefined;
+      const [feedUrls, preferences] = userId
+        ? await Promise.all([
+            storage.getUserFeeds(userId).then((feeds) => feeds.map((feed) => feed.url)),
+            storage.getUserPreferences(userId),
+          ])
+        : [[], undefined];
+      const userDedupPolicy = preferences?.dedupPolicy ? resolveDedupPolicy(preferences.dedupPolicy) : null;
+      // ?debug=true adds the dedup policy and decisions to the response
+      const debug = req.query.debug === "true";
+      const dedupDecisions: DedupDecision[] = [];
+
+      let session: SearchSession | undefined;
+      let after: ArticleCursor | undefined;
+      let transientArticles: ArticleWithStory[] = []; // Unstored items (demo, custom feeds) for the first page
+
+      if (cursor !== undefined) {
+        // Next page: the session carries the query and filters
+        const decoded = typeof cursor === "string" ? decodeCursor(cursor) : null;
+        if (!decoded) {
+          return res.status(400).json({ message: "Invalid cursor" });
+        }
+        session = await getSearchSession(decoded.sessionId);
+        if (!session) {
+          return res.status(410).json({ message: "Search session expired, please search again" });
+        }
+        after = decoded.after;
+      } else {
+        const { keyword, startDate, endDate, source = "all", sort = "date", publisher } = req.query;
+
+        // ?refresh=true from an admin forces a live fetch that skips the news cache. Browser
+        // Cache-Control headers are ignored: anyone could otherwise spend the source quotas.
+        const bypassCache = req.query.refresh === "true" && isAdminUser(userId);
+
+        if (!keyword || typeof keyword !== "string") {
+          return res.status(400).json({ message: "Keyword is required" });
+        }
+
+        // Query syntax: "phrases", AND/OR/NOT, -exclusions, (groups), site:domain
+        if (!parseSearchQuery(keyword)) {
+          return res.status(400).json({ message: "Keyword must include a term to search for" });
+        }
+
+        if ((startDate && typeof startDate !== "string") || (endDate && typeof endDate !== "string")) {
+          return res.status(400).json({ message: "Invalid date (YYYY-MM-DD)" });
+        }
+
+        if (typeof source !== "string" || (source !== "all" && !getNewsSource(source))) {
+          return res.status(400).json({ message: "Unknown news source" });
+        }
+
+        if (!newsSortModes.includes(sort as NewsSortMode)) {
+          return res.status(400).json({ message: "Invalid sort (date, sim)" });
+        }
+
+        const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+        if ((startDate && !datePattern.test(startDate)) || (endDate && !datePattern.test(endDate))) {
+          return res.status(400).json({ message: "Invalid date (YYYY-MM-DD)" });
+        }
+
+        // Optional comma-separated outlet filter, e.g. publisher=연합뉴스,한겨레
+        const publishers = typeof publisher === "string"
+          ? publisher.split(",").map((p) => p.trim()).filter(Boolean)
+          : [];
+
+        // Only signed-in searches become tracked terms or fetch live, so anonymous callers can't
+        // spend source quota on arbitrary strings: they get what the archive already has
+        const normalizedKeyword = normalizeKeyword(keyword);
+        const searchTerm = userId ? await storage.recordSearchTerm(normalizedKeyword) : undefined;
+
+        // Never-seen keyword: fetch live once so the archive has results; the crawler keeps it fresh after that.
+        // The seed fetch ignores this request's source/date/publisher filters, since the keyword is then
+        // marked crawled for every later search. A cache bypass also forces a live fetch.
+        if (searchTerm && (!searchTerm.lastCrawledAt || bypassCache)) {
+          if (bypassCache) {
+            recordCacheBypass();
+          }
+          const { articles: liveArticles, dedupDecisions: ingestDecisions } = await searchNewsWithDecisions({
+            keyword,
+            source: "all",
+            bypassCache,
+          });
+          await storage.markSearchTermCrawled(normalizedKeyword);
+          dedupDecisions.push(...ingestDecisions);
+          // Ephemeral (demo) articles are never stored, so carry over the ones this request's filters allow
+          const wantedPublishers = new Set(publishers.map((p) => p.toLowerCase()));
+          transientArticles = liveArticles.filter((a) =>
+            getNewsSource(a.source)?.ephemeral
+            && (source === "all" || a.source === source)
+            && (wantedPublishers.size === 0 || (!!a.publisher && wantedPublishers.has(a.publisher.toLowerCase())))
+          );
+        }
+
+        // The user's own feeds are private to them, so they join their first page instead of the archive
+        if (feedUrls.length > 0 && (source === "all" || source === "rss")) {
+          transientArticles.push(...await searchUserFeeds({ keyword, feedUrls, startDate, endDate, publishers }));
+        }
+
+        // Snapshot after the live fetch so its articles are part of the session
+        session = await createSearchSession({
+          keyword,
+          startDate: startDate ? new Date(`${startDate}T00:00:00`).toISOString() : undefined,
+          endDate: endDate ? new Date(`${endDate}T23:59:59.999`).toISOString() : undefined,
+          source,
+          publishers,
+          sort: sort as NewsSortMode,
+        });
+      }
+
+      const filters = sessionSearchParams(session);
+      const { keyword, source, sort } = session.params;
+      let [page, storedTotal] = await Promise.all([
+        storage.getArticlePage({ ...filters, limit: size }, after),
+        storage.countArticles(filters),
+      ]);
+
+      // Stored results are already ranked (ts_rank for sort=sim); transient ones join the first page
+      let pageArticles = after
+        ? page.articles
+        : sort === "sim"
+          ? [...page.articles, ...transientArticles]
+          : [...transientArticles, ...page.articles].sort((a, b) =>
+              new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime()
+            );
+
+      // The archive is deduplicated with the deployment policy; apply the user's own policy to their page,
+      // topping it up with the following rows for the copies it merges (the cursor moves past them too)
+      if (userDedupPolicy) {
+        let deduped = dedupeResults(pageArticles, userDedupPolicy);
+        for (let refills = 0; deduped.articles.length < size && page.next && refills < MAX_DEDUP_REFILLS; refills++) {
+          const more = await storage.getArticlePage({ ...filters, limit: size - deduped.articles.length }, page.next);
+          page = { articles: [...page.articles, ...more.articles], next: more.next };
+          pageArticles = [...pageArticles, ...more.articles];
+          deduped = dedupeResults(pageArticles, userDedupPolicy);
+        }
+        pageArticles = deduped.articles;
+        dedupDecisions.push(...deduped.decisions);
+      }
+
+      const query = parseSearchQuery(keyword);
+      const highlightQuery = query ? positiveTerms(query).map((term) => term.value).join(" ") : keyword;
+      const articles: SearchResultArticle[] = (await withStoryCounts(pageArticles)).map((article) => ({
+        ...article,
+        highlight: highlightArticle(article, highlightQuery),
+      }));
+
+      res.json({
+        articles,
+        pagination: {
+          pageSize: size,
+          total: storedTotal + transientArticles.length,
+          hasMore: page.next !== null,
+          nextCursor: page.next ? encodeCursor(session.id, page.next) : null,
+        },
+        // Sources that are failing right now, so the client can flag partial results
+        unavailableSources: getUnavailableSources(source),
+        ...(debug && {
+          debug: {
+            dedupPolicy: resolveDedupPolicy(preferences?.dedupPolicy),
+            dedupDecisions,
+          },
+        }),
+      });
+    } catch (error) {
+      console.error("Error searching news:", error);
+      res.status(500).json({ message: "Failed to search news" });
+    }
+  });
+
+  // Semantic search over stored articles: ranks by embedding similarity to q
+  // (blend=true mixes in keyword match and recency). Never triggers a live fetch.
+  // Signed-in only: each new query is an embedding provider call.
+  app.get("/api/news/semantic-search", isAuthenticated, async (req, res) => {
     try {
-      const { keyword, startDate, endDate, source = "all", page = "1", pageSize = "20" } = req.query;
+      const { q, startDate, endDate, source = "all", publisher, blend, page = "1", pageSize = "20" } = req.query;
+
+      if (!q || typeof q !== "string" || !q.trim()) {
+        return res.status(400).json({ message: "Query is required" });
+      }
 
-      if (!keyword || typeof keyword !== "string") {
-        return res.status(400).json({ message: "Keyword is required" });
+      if (!isEmbeddingAvailable()) {
+        return res.status(503).json({ message: "Semantic search is unavailable (no embedding provider configured)" });
+      }
+
+      const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+      if ((startDate && (typeof startDate !== "string" || !datePattern.test(startDate)))
+        || (endDate && (typeof endDate !== "string" || !datePattern.test(endDate)))) {
+        return res.status(400).json({ message: "Invalid date (YYYY-MM-DD)" });
+      }
+
+      if (typeof source !== "string" || (source !== "all" && !getNewsSource(source))) {
+        return res.status(400).json({ message: "Unknown news source" });
       }
 
       const pageNum = parseInt(page as string, 10);
@@ -47,34 +282,188 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid page size (1-100)" });
       }
 
-      const allArticles = await searchNews({
-        keyword,
-        startDate: startDate as string,
-        endDate: endDate as string,
-        source: source as string,
+      const publishers = typeof publisher === "string"
+        ? publisher.split(",").map((p) => p.trim()).filter(Boolean)
+        : [];
+
+      const ranked = await semanticSearch({
+        query: q.trim(),
+        blend: blend === "true",
+        startDate: startDate ? new Date(`${startDate}T00:00:00`) : undefined,
+        endDate: endDate ? new Date(`${endDate}T23:59:59.999`) : undefined,
+        source,
+        publishers,
       });
 
-      // Calculate pagination
-      const startIndex = (pageNum - 1) * size;
-      const endIndex = startIndex + size;
-      const paginatedArticles = allArticles.slice(startIndex, endIndex);
-      const hasMore = endIndex < allArticles.length;
+      if (!ranked) {
+        return res.status(503).json({ message: "Failed to embed the query" });
+      }
 
+      const articles: SemanticSearchArticle[] = await withStoryCounts(ranked.slice((pageNum - 1) * size, pageNum * size));
       res.json({
-        articles: paginatedArticles,
+        articles,
         pagination: {
           page: pageNum,
           pageSize: size,
-          total: allArticles.length,
-          hasMore,
+          total: ranked.length,
+          hasMore: pageNum * size < ranked.length,
         },
       });
     } catch (error) {
-      console.error("Error searching news:", error);
+      console.error("Error in semantic search:", error);
       res.status(500).json({ message: "Failed to search news" });
     }
   });
 
+  // Registered news sources (drives source filters on the client)
+  app.get("/api/sources", async (req, res) => {
+    try {
+      res.json(getNewsSourceInfo());
+    } catch (error) {
+      console.error("Error fetching sources:", error);
+      res.status(500).json({ message: "Failed to fetch sources" });
+    }
+  });
+
+  // Per-source health: success rate, latency, last error, 429 count, circuit state
+  app.get("/api/sources/health", async (req, res) => {
+    try {
+      res.json(getSourceHealthReport());
+    } catch (error) {
+      console.error("Error fetching source health:", error);
+      res.status(500).json({ message: "Failed to fetch source health" });
+    }
+  });
+
+  // Remaining daily request budget per source (admins only)
+  app.get("/api/admin/quotas", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      res.json(await getQuotaReport());
+    } catch (error) {
+      console.error("Error fetching source quotas:", error);
+      res.status(500).json({ message: "Failed to fetch source quotas" });
+    }
+  });
+
+  // Embedding backfill progress: latest job, or null if none has run (admins only)
+  app.get("/api/admin/embeddings/backfill", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      res.json(await getEmbeddingBackfillStatus());
+    } catch (error) {
+      console.error("Error fetching embedding backfill status:", error);
+      res.status(500).json({ message: "Failed to fetch embedding backfill status" });
+    }
+  });
+
+  // Start or resume the embedding backfill; ?restart=true starts a fresh run
+  app.post("/api/admin/embeddings/backfill", isAuthenticated, isAdmin, async (req, res) => {
+    if (!isEmbeddingAvailable()) {
+      return res.status(400).json({ message: "No embedding provider configured" });
+    }
+    try {
+      const job = await startEmbeddingBackfill({ restart: req.query.restart === "true" });
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Error starting embedding backfill:", error);
+      res.status(500).json({ message: "Failed to start embedding backfill" });
+    }
+  });
+
+  // Stop the backfill running in this process after its current batch
+  app.delete("/api/admin/embeddings/backfill", isAuthenticated, isAdmin, async (req, res) => {
+    if (!cancelEmbeddingBackfill()) {
+      return res.status(404).json({ message: "No embedding backfill running" });
+    }
+    res.status(202).json({ message: "Embedding backfill will stop after the current batch" });
+  });
+
+  // News cache hit/miss metrics
+  app.get("/api/cache/stats", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      res.json(getCacheStats());
+    } catch (error) {
+      console.error("Error fetching cache stats:", error);
+      res.status(500).json({ message: "Failed to fetch cache stats" });
+    }
+  });
+
+  // Known publishers: mapping table outlets plus any seen in stored articles
+  app.get("/api/publishers", async (req, res) => {
+    try {
+      const stored = await storage.getPublishers();
+      const publishers = Array.from(new Set([...getKnownPublishers(), ...stored]))
+        .sort((a, b) => a.localeCompare(b, "ko"));
+      res.json(publishers);
+    } catch (error) {
+      console.error("Error fetching publishers:", error);
+      res.status(500).json({ message: "Failed to fetch publishers" });
+    }
+  });
+
+  // Recent stories: articles about the same event grouped across sources
+  app.get("/api/stories", async (req, res) => {
+    try {
+      const { days = "3", minArticles = "2", limit = "50" } = req.query;
+      const dayCount = parseInt(days as string, 10);
+      const min = parseInt(minArticles as string, 10);
+      const max = parseInt(limit as string, 10);
+
+      if (isNaN(dayCount) || dayCount < 1 || dayCount > 30) {
+        return res.status(400).json({ message: "Invalid days (1-30)" });
+      }
+      if (isNaN(min) || min < 1) {
+        return res.status(400).json({ message: "Invalid minArticles" });
+      }
+      if (isNaN(max) || max < 1 || max > 100) {
+        return res.status(400).json({ message: "Invalid limit (1-100)" });
+      }
+
+      const stories = await storage.getStoryClusters({
+        since: new Date(Date.now() - dayCount * 24 * 60 * 60 * 1000),
+        minArticles: min,
+        limit: max,
+      });
+      res.json(stories);
+    } catch (error) {
+      console.error("Error fetching stories:", error);
+      res.status(500).json({ message: "Failed to fetch stories" });
+    }
+  });
+
+  // One story with every outlet's copy, oldest first
+  app.get("/api/stories/:id", async (req, res) => {
+    try {
+      const cluster = await storage.getStoryCluster(req.params.id);
+      if (!cluster) {
+        return res.status(404).json({ message: "Story not found" });
+      }
+      const story: StoryDetail = { ...cluster, coverage: await storage.getStoryCoverage(cluster.id) };
+      res.json(story);
+    } catch (error) {
+      console.error("Error fetching story:", error);
+      res.status(500).json({ message: "Failed to fetch story" });
+    }
+  });
+
+  // Related coverage for the article drawer: same-story copies and embedding neighbours (?limit=1-50, default 10)
+  app.get("/api/articles/:id/related", async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 10;
+      if (isNaN(limit) || limit < 1 || limit > 50) {
+        return res.status(400).json({ message: "Invalid limit (1-50)" });
+      }
+
+      const article = await storage.getArticle(req.params.id);
+      if (!article) {
+        return res.status(404).json({ message: "Article not found" });
+      }
+      res.json(await getRelatedArticles(article, limit));
+    } catch (error) {
+      console.error("Error fetching related articles:", error);
+      res.status(500).json({ message: "Failed to fetch related articles" });
+    }
+  });
+
   // Trending topics endpoint
   app.get("/api/trends", async (req, res) => {
     try {
@@ -108,6 +497,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId,
       });
 
+      // Keywords are search queries; reject ones that can't be searched
+      const invalidKeyword = validatedData.keywords.find((keyword) => !parseSearchQuery(keyword));
+      if (invalidKeyword !== undefined) {
+        return res.status(400).json({ message: `Invalid keyword query: "${invalidKeyword}"` });
+      }
+
       const subscription = await storage.createSubscription(validatedData);
       res.json(subscription);
     } catch (error) {
@@ -150,6 +545,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json({
           userId,
           favoriteSources: [],
+          favoritePublishers: [],
           favoriteCategories: [],
           language: "ko",
         });
@@ -202,6 +598,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId,
       });
 
+      // Transient results (custom feed and demo items) have no stored article to point at
+      if (!(await storage.getArticle(validatedData.articleId))) {
+        return res.status(404).json({ message: "Article not found" });
+      }
+
       // Check if bookmark already exists
       const existingBookmark = await storage.getBookmark(userId, validatedData.articleId);
       if (existingBookmark) {
@@ -244,6 +645,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Custom feed endpoints
+  app.get("/api/feeds", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const feeds = await storage.getUserFeeds(userId);
+      res.json(feeds);
+    } catch (error) {
+      console.error("Error fetching feeds:", error);
+      res.status(500).json({ message: "Failed to fetch feeds" });
+    }
+  });
+
+  app.post("/api/feeds", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      // Validate request body
+      const validatedData = insertUserFeedSchema.parse({
+        url: typeof req.body.url === "string" ? req.body.url.trim() : req.body.url,
+        userId,
+      });
+
+      const existingFeeds = await storage.getUserFeeds(userId);
+      if (existingFeeds.some((feed) => feed.url === validatedData.url)) {
+        return res.status(409).json({ message: "Feed already exists" });
+      }
+
+      // Only public http(s) hosts; fetchFeed checks again at every poll
+      try {
+        await assertPublicUrl(validatedData.url);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+
+      // Fetch and parse the feed before saving so broken URLs are rejected up front
+      let title: string;
+      try {
+        const parsed = await fetchFeed(validatedData.url);
+        title = parsed.title || validatedData.url;
+      } catch (error: any) {
+        console.error(`Error validating feed ${validatedData.url}:`, error.message);
+        return res.status(422).json({ message: "Could not read an RSS or Atom feed at this URL" });
+      }
+
+      const feed = await storage.createUserFeed({ ...validatedData, title });
+      res.status(201).json(feed);
+    } catch (error) {
+      console.error("Error creating feed:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid feed URL" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/feeds/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+
+      // Verify ownership
+      const feed = await storage.getUserFeed(id);
+      if (!feed) {
+        return res.status(404).json({ message: "Feed not found" });
+      }
+
+      if (feed.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      await storage.deleteUserFeed(id);
+      res.json({ message: "Feed deleted" });
+    } catch (error) {
+      console.error("Error deleting feed:", error);
+      res.status(500).json({ message: "Failed to delete feed" });
+    }
+  });
+
   // Get email delivery history
   app.get("/api/email-logs", isAuthenticated, async (req: any, res) => {
     try {
@@ -33,12 +33,17 @@ export function setupScheduler() {
               continue;
             }
 
+            // Include the subscriber's custom feeds alongside the global sources
+            const feedUrls = (await storage.getUserFeeds(subscription.userId)).map((feed) => feed.url);
+
             // Search for news articles using subscription keywords
             let allArticles: any[] = [];
             for (const keyword of subscription.keywords) {
               const articles = await searchNews({
                 keyword,
                 source: "all",
+                feedUrls,
+                priority: "digest",
               });
               allArticles.push(...articles);
             }
@@ -0,0 +1,30 @@
+import { runEmbeddingBackfill } from "../embeddingBackfill";
+import { pool } from "../db";
+
+/*
+ * CLI for the embedding backfill: npm run embeddings:backfill [-- --restart]
+ * Resumes the last unfinished run unless --restart is given.
+ */
+
+async function main(): Promise<number> {
+  const restart = process.argv.includes("--restart");
+  const job = await runEmbeddingBackfill({ restart });
+
+  if (!job) {
+    console.log("[EmbeddingBackfill] A backfill is already running in another process");
+    return 0;
+  }
+
+  console.log(`[EmbeddingBackfill] Job ${job.id} ${job.status}: ${job.processed} embedded, ${job.failed} failed`);
+  return job.status === "completed" ? 0 : 1;
+}
+
+main()
+  .catch((error) => {
+    console.error("[EmbeddingBackfill] Error:", error instanceof Error ? error.message : error);
+    return 1;
+  })
+  .then(async (exitCode) => {
+    await pool.end();
+    process.exit(exitCode);
+  });
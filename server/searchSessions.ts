@@ -0,0 +1,84 @@
+import { z } from "zod";
+import type { SearchSession, SearchSessionParams } from "@shared/schema";
+import { storage, type ArticleCursor, type ArticleSearchParams } from "./storage";
+
+/*
+ * Search sessions for cursor pagination of /api/news/search
+ * The first page of a search records its query and filters along with a
+ * snapshot time; later pages are keyset queries against the stored articles
+ * (publishedAt + id, after ts_rank for sort=sim) limited to rows stored by the
+ * snapshot. Articles ingested while the user scrolls can't shift or repeat
+ * items, and paging never calls the external sources.
+ */
+
+const SESSION_TTL_MS = 60 * 60 * 1000; // A session outlives any reasonable scroll
+
+// Opaque to clients: base64url JSON of the session id and the position after the last page
+const cursorSchema = z.object({
+  s: z.string().min(1), // Session id
+  p: z.string().datetime(), // publishedAt
+  i: z.string().min(1), // Article id
+  r: z.string().regex(/^-?\d+(\.\d+)?$/).optional(), // Rank (sort=sim)
+});
+
+export interface SearchCursor {
+  sessionId: string;
+  after: ArticleCursor;
+}
+
+export function encodeCursor(sessionId: string, after: ArticleCursor): string {
+  const payload = {
+    s: sessionId,
+    p: after.publishedAt.toISOString(),
+    i: after.id,
+    ...(after.rank !== undefined && { r: after.rank }),
+  };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+// null for anything that isn't a cursor we issued
+export function decodeCursor(cursor: string): SearchCursor | null {
+  try {
+    const parsed = cursorSchema.safeParse(JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")));
+    if (!parsed.success) return null;
+    const { s, p, i, r } = parsed.data;
+    return { sessionId: s, after: { publishedAt: new Date(p), id: i, ...(r !== undefined && { rank: r }) } };
+  } catch {
+    return null;
+  }
+}
+
+// Start a session; its snapshot is taken now, so call it after any live fetch has been stored
+export async function createSearchSession(params: SearchSessionParams): Promise<SearchSession> {
+  return await storage.createSearchSession({
+    params,
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+  });
+}
+
+// undefined when the session is unknown or expired
+export async function getSearchSession(id: string): Promise<SearchSession | undefined> {
+  return await storage.getSearchSession(id);
+}
+
+// Archive query for a session's result set
+export function sessionSearchParams(session: SearchSession): ArticleSearchParams {
+  const { keyword, startDate, endDate, source, publishers, sort } = session.params;
+  return {
+    keyword,
+    startDate: startDate ? new Date(startDate) : undefined,
+    endDate: endDate ? new Date(endDate) : undefined,
+    source,
+    publishers,
+    sort,
+    createdBefore: session.snapshotAt,
+  };
+}
+
+export async function pruneSearchSessions(): Promise<void> {
+  try {
+    await storage.deleteExpiredSearchSessions();
+  } catch (error) {
+    console.error("[SearchSessions] Error pruning sessions:", error);
+  }
+}
@@ -0,0 +1,103 @@
+import type { SimilarArticle } from "@shared/schema";
+import { storage, type ArticleFilters } from "./storage";
+import { generateEmbedding, getEmbeddingTarget, type ArticleEmbedding } from "./embeddingService";
+
+/*
+ * Semantic search over the stored archive
+ * The query is embedded with the configured provider and matched against
+ * article embeddings by cosine similarity, so "반도체 수출 규제 영향" also finds
+ * articles that never use that exact phrase. Optionally the similarity is
+ * blended with a keyword-match and a recency score. Query embeddings are cached,
+ * so paging through results doesn't call the provider again.
+ */
+
+// Nearest neighbours fetched per query; ranking and pagination happen within this window
+const SEMANTIC_CANDIDATES = 200;
+// Blend weights (sum to 1); with blend off the score is the similarity alone
+const SIMILARITY_WEIGHT = 0.7;
+const KEYWORD_WEIGHT = 0.2;
+const RECENCY_WEIGHT = 0.1;
+const RECENCY_HALF_LIFE_HOURS = 72;
+const QUERY_EMBEDDING_TTL_MS = 60 * 60 * 1000;
+const QUERY_EMBEDDING_MAX_ENTRIES = 1000;
+
+// provider/model/query -> embedding (the key changes with the configured provider, so vectors never mix)
+const queryEmbeddingCache = new Map<string, { createdAt: number; embedding: ArticleEmbedding }>();
+
+export interface SemanticSearchParams extends ArticleFilters {
+  query: string;
+  blend?: boolean;
+}
+
+export type RankedArticle = SimilarArticle & { score: number };
+
+// Share of query terms found in the title (full credit) or description/body (half credit)
+function keywordScore(article: SimilarArticle, terms: string[]): number {
+  if (terms.length === 0) return 0;
+  const title = article.title.toLowerCase();
+  const body = `${article.description || ""} ${article.content || ""}`.toLowerCase();
+
+  let matched = 0;
+  for (const term of terms) {
+    if (title.includes(term)) matched += 1;
+    else if (body.includes(term)) matched += 0.5;
+  }
+  return matched / terms.length;
+}
+
+// 1 for an article published now, halving every RECENCY_HALF_LIFE_HOURS
+function recencyScore(article: SimilarArticle): number {
+  const ageHours = Math.max(0, Date.now() - new Date(article.publishedAt).getTime()) / (60 * 60 * 1000);
+  return Math.pow(0.5, ageHours / RECENCY_HALF_LIFE_HOURS);
+}
+
+async function embedQuery(query: string): Promise<ArticleEmbedding | null> {
+  const target = getEmbeddingTarget();
+  if (!target) return null;
+
+  const key = `${target.provider}:${target.model}:${query}`;
+  const cached = queryEmbeddingCache.get(key);
+  if (cached && Date.now() - cached.createdAt < QUERY_EMBEDDING_TTL_MS) {
+    return cached.embedding;
+  }
+
+  const embedding = await generateEmbedding(query);
+  if (!embedding) return null; // Provider failures aren't cached
+
+  // Map iteration order is insertion order, so the first key is the oldest entry
+  queryEmbeddingCache.delete(key);
+  if (queryEmbeddingCache.size >= QUERY_EMBEDDING_MAX_ENTRIES) {
+    const oldest = queryEmbeddingCache.keys().next().value;
+    if (oldest !== undefined) queryEmbeddingCache.delete(oldest);
+  }
+  queryEmbeddingCache.set(key, { createdAt: Date.now(), embedding });
+  return embedding;
+}
+
+/**
+ * Rank stored articles by meaning rather than exact keyword match
+ * Returns null when the query can't be embedded (no provider configured or the provider failed)
+ */
+export async function semanticSearch(params: SemanticSearchParams): Promise<RankedArticle[] | null> {
+  const { query, blend = false, ...filters } = params;
+
+  const embedding = await embedQuery(query);
+  if (!embedding) {
+    return null;
+  }
+
+  const candidates = await storage.findSimilarArticles(embedding, SEMANTIC_CANDIDATES, filters);
+  if (!blend) {
+    return candidates.map((article) => ({ ...article, score: article.similarity }));
+  }
+
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return candidates
+    .map((article) => ({
+      ...article,
+      score: SIMILARITY_WEIGHT * article.similarity
+        + KEYWORD_WEIGHT * keywordScore(article, terms)
+        + RECENCY_WEIGHT * recencyScore(article),
+    }))
+    .sort((a, b) => b.score - a.score);
+}
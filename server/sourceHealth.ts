@@ -0,0 +1,187 @@
+import type { SourceHealth, SourceFailureReason } from "@shared/schema";
+
+/*
+ * Per-source health tracking and circuit breaker
+ * searchNews records the outcome of every source call here. After
+ * CIRCUIT_FAILURE_THRESHOLD consecutive failures the circuit opens and the
+ * source is skipped until its backoff expires; then a single call is let through
+ * as a trial (half-open; concurrent searches keep skipping the source meanwhile)
+ * that either closes the circuit or reopens it with a doubled backoff.
+ */
+
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const BASE_BACKOFF_MS = 60 * 1000; // 1 minute
+const MAX_BACKOFF_MS = 30 * 60 * 1000; // 30 minutes
+const OUTCOME_WINDOW = 50; // Success rate over the last 50 calls
+const TRIAL_TIMEOUT_MS = 2 * 60 * 1000; // A trial call that never reported back stops blocking the next one
+
+interface SourceHealthState {
+  outcomes: boolean[]; // Most recent last, capped at OUTCOME_WINDOW
+  totalCalls: number;
+  rateLimitedCount: number;
+  lastLatencyMs: number | null;
+  averageLatencyMs: number | null; // Exponential moving average
+  lastSuccessAt: Date | null;
+  lastError: string | null;
+  lastErrorReason: SourceFailureReason | null;
+  lastErrorAt: Date | null;
+  consecutiveFailures: number;
+  circuitOpenUntil: Date | null;
+  trialStartedAt: Date | null; // Half-open trial call in flight
+}
+
+const healthStates = new Map<string, SourceHealthState>();
+
+function getState(sourceId: string): SourceHealthState {
+  let state = healthStates.get(sourceId);
+  if (!state) {
+    state = {
+      outcomes: [],
+      totalCalls: 0,
+      rateLimitedCount: 0,
+      lastLatencyMs: null,
+      averageLatencyMs: null,
+      lastSuccessAt: null,
+      lastError: null,
+      lastErrorReason: null,
+      lastErrorAt: null,
+      consecutiveFailures: 0,
+      circuitOpenUntil: null,
+      trialStartedAt: null,
+    };
+    healthStates.set(sourceId, state);
+  }
+  return state;
+}
+
+function recordOutcome(state: SourceHealthState, success: boolean, latencyMs: number) {
+  state.outcomes.push(success);
+  if (state.outcomes.length > OUTCOME_WINDOW) {
+    state.outcomes.shift();
+  }
+  state.totalCalls++;
+  state.lastLatencyMs = latencyMs;
+  state.averageLatencyMs = state.averageLatencyMs === null
+    ? latencyMs
+    : Math.round(state.averageLatencyMs * 0.8 + latencyMs * 0.2);
+}
+
+// Classify an adapter error (usually an axios error) for display and backoff decisions
+export function classifySourceError(error: any): SourceFailureReason {
+  const status = error?.response?.status;
+  if (status === 429) return "rate_limited";
+  if (status === 401 || status === 403) return "auth";
+  if (error?.code === "ECONNABORTED" || error?.code === "ETIMEDOUT") return "timeout";
+  return "error";
+}
+
+// Honour Retry-After (seconds or HTTP date) on 429 responses
+function retryAfterMs(error: any): number | null {
+  const header = error?.response?.headers?.["retry-after"];
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export function recordSourceSuccess(sourceId: string, latencyMs: number): void {
+  const state = getState(sourceId);
+  recordOutcome(state, true, latencyMs);
+  state.lastSuccessAt = new Date();
+  state.consecutiveFailures = 0;
+  state.circuitOpenUntil = null;
+  state.trialStartedAt = null;
+}
+
+export function recordSourceFailure(sourceId: string, error: any, latencyMs: number): void {
+  const state = getState(sourceId);
+  const reason = classifySourceError(error);
+
+  recordOutcome(state, false, latencyMs);
+  state.trialStartedAt = null;
+  state.lastError = error?.message || String(error);
+  state.lastErrorReason = reason;
+  state.lastErrorAt = new Date();
+  state.consecutiveFailures++;
+  if (reason === "rate_limited") {
+    state.rateLimitedCount++;
+  }
+
+  // A rate limit with Retry-After opens the circuit immediately for that long
+  const retryAfter = reason === "rate_limited" ? retryAfterMs(error) : null;
+  if (retryAfter !== null) {
+    state.circuitOpenUntil = new Date(Date.now() + Math.min(retryAfter, MAX_BACKOFF_MS));
+  } else if (state.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+    const exponent = state.consecutiveFailures - CIRCUIT_FAILURE_THRESHOLD;
+    const backoff = Math.min(BASE_BACKOFF_MS * 2 ** exponent, MAX_BACKOFF_MS);
+    state.circuitOpenUntil = new Date(Date.now() + backoff);
+  }
+
+  if (state.circuitOpenUntil) {
+    console.warn(`[SourceHealth] Circuit open for "${sourceId}" until ${state.circuitOpenUntil.toISOString()} (${reason})`);
+  }
+}
+
+function isTrialInFlight(state: SourceHealthState): boolean {
+  return !!state.trialStartedAt && Date.now() - state.trialStartedAt.getTime() < TRIAL_TIMEOUT_MS;
+}
+
+// Open circuit = skip the source; once the backoff expires one trial call is let through (see beginSourceCall)
+export function isCircuitOpen(sourceId: string): boolean {
+  const state = healthStates.get(sourceId);
+  if (!state?.circuitOpenUntil) return false;
+  return state.circuitOpenUntil.getTime() > Date.now() || isTrialInFlight(state);
+}
+
+/**
+ * Claim a call to a source, right before making it
+ * Returns false while the circuit is open; after the backoff only the first
+ * caller gets through, as the half-open trial, until its outcome is recorded.
+ */
+export function beginSourceCall(sourceId: string): boolean {
+  const state = healthStates.get(sourceId);
+  if (!state?.circuitOpenUntil) return true;
+  if (isCircuitOpen(sourceId)) return false;
+  state.trialStartedAt = new Date();
+  return true;
+}
+
+// A source is unavailable while its circuit is open or when its last call failed
+export function isSourceUnavailable(sourceId: string): boolean {
+  const state = healthStates.get(sourceId);
+  if (!state) return false;
+  return isCircuitOpen(sourceId) || state.outcomes[state.outcomes.length - 1] === false;
+}
+
+export function getSourceHealth(sourceId: string, name: string, enabled: boolean): SourceHealth {
+  const state = healthStates.get(sourceId);
+  const successes = state?.outcomes.filter(Boolean).length ?? 0;
+  const circuitOpen = isCircuitOpen(sourceId);
+
+  return {
+    id: sourceId,
+    name,
+    enabled,
+    status: !enabled
+      ? "disabled"
+      : circuitOpen
+        ? "down"
+        : state && state.consecutiveFailures > 0
+          ? "degraded"
+          : "healthy",
+    successRate: state && state.outcomes.length > 0 ? successes / state.outcomes.length : null,
+    totalCalls: state?.totalCalls ?? 0,
+    rateLimitedCount: state?.rateLimitedCount ?? 0,
+    lastLatencyMs: state?.lastLatencyMs ?? null,
+    averageLatencyMs: state?.averageLatencyMs ?? null,
+    lastSuccessAt: state?.lastSuccessAt?.toISOString() ?? null,
+    lastError: state?.lastError ?? null,
+    lastErrorReason: state?.lastErrorReason ?? null,
+    lastErrorAt: state?.lastErrorAt?.toISOString() ?? null,
+    consecutiveFailures: state?.consecutiveFailures ?? 0,
+    circuitOpenUntil: circuitOpen ? state!.circuitOpenUntil!.toISOString() : null,
+  };
+}
@@ -0,0 +1,124 @@
+import { requestPriorities, type RequestPriority, type SourceQuotaStatus } from "@shared/schema";
+import { storage } from "./storage";
+
+/*
+ * Daily request budgets for metered news sources
+ * User searches, the hourly digest scheduler, the breaking-news monitor and
+ * the crawler all share one quota per source (e.g. NewsAPI free tier ~100/day).
+ * Each live HTTP request is counted per UTC day in source_quota_usage.
+ * Lower priorities stop before the quota runs out so that the remaining
+ * share stays available for scheduled digests.
+ */
+
+// Share of the daily quota a priority must leave untouched for higher priorities
+const PRIORITY_RESERVE: Record<RequestPriority, number> = {
+  digest: 0,
+  search: 0.1,
+  monitor: 0.3,
+};
+
+// Below this share of the quota left, searchNews stretches cache TTLs for the source
+const LOW_BUDGET_SHARE = 0.2;
+
+// sourceId -> request count for the current UTC day (loaded from the DB on first use each day)
+const usage = new Map<string, { day: string; used: number }>();
+
+function utcDay(date: Date = new Date()): string {
+  return date.toISOString().split("T")[0];
+}
+
+function nextUtcMidnight(): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
+
+// Requests a priority may make in a day before it stops calling the source
+function allowanceFor(dailyLimit: number, priority: RequestPriority): number {
+  return Math.floor(dailyLimit * (1 - PRIORITY_RESERVE[priority]));
+}
+
+async function loadUsage(sourceId: string): Promise<{ day: string; used: number }> {
+  const day = utcDay();
+  const current = usage.get(sourceId);
+  if (current?.day === day) return current;
+
+  let used = 0;
+  try {
+    used = await storage.getSourceQuotaUsage(sourceId, day);
+  } catch (error) {
+    console.error(`[SourceQuota] Error loading usage for "${sourceId}":`, error);
+  }
+
+  // Another caller may have loaded (and spent) while we were waiting
+  const loaded = usage.get(sourceId);
+  if (loaded?.day === day) return loaded;
+
+  const entry = { day, used };
+  usage.set(sourceId, entry);
+  return entry;
+}
+
+// Whether a priority may still call the source today (dailyLimit undefined = unmetered)
+export async function hasQuota(sourceId: string, dailyLimit: number | undefined, priority: RequestPriority): Promise<boolean> {
+  if (!dailyLimit) return true;
+  const { used } = await loadUsage(sourceId);
+  return used < allowanceFor(dailyLimit, priority);
+}
+
+/**
+ * Count one live request against the source's budget
+ * Returns false (and counts nothing) when the priority's allowance is spent
+ */
+export async function tryReserveRequest(
+  sourceId: string,
+  dailyLimit: number | undefined,
+  priority: RequestPriority,
+): Promise<boolean> {
+  if (!dailyLimit) return true;
+
+  const entry = await loadUsage(sourceId);
+  if (entry.used >= allowanceFor(dailyLimit, priority)) {
+    return false;
+  }
+  entry.used++;
+
+  try {
+    await storage.incrementSourceQuotaUsage(sourceId, entry.day, 1);
+  } catch (error) {
+    console.error(`[SourceQuota] Error recording usage for "${sourceId}":`, error);
+  }
+  return true;
+}
+
+// Synchronous checks against the last loaded count (false until the source is first used today)
+export function isQuotaExhausted(sourceId: string, dailyLimit: number | undefined, priority: RequestPriority): boolean {
+  const entry = usage.get(sourceId);
+  if (!dailyLimit || entry?.day !== utcDay()) return false;
+  return entry.used >= allowanceFor(dailyLimit, priority);
+}
+
+export function isQuotaLow(sourceId: string, dailyLimit: number | undefined): boolean {
+  const entry = usage.get(sourceId);
+  if (!dailyLimit || entry?.day !== utcDay()) return false;
+  return dailyLimit - entry.used < dailyLimit * LOW_BUDGET_SHARE;
+}
+
+export async function getQuotaStatus(
+  sourceId: string,
+  name: string,
+  enabled: boolean,
+  dailyLimit: number | undefined,
+): Promise<SourceQuotaStatus> {
+  const used = dailyLimit ? (await loadUsage(sourceId)).used : 0;
+
+  return {
+    id: sourceId,
+    name,
+    enabled,
+    dailyLimit: dailyLimit ?? null,
+    used,
+    remaining: dailyLimit ? Math.max(0, dailyLimit - used) : null,
+    resetsAt: nextUtcMidnight().toISOString(),
+    allowedPriorities: requestPriorities.filter((p) => !dailyLimit || used < allowanceFor(dailyLimit, p)),
+  };
+}
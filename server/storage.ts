@@ -3,23 +3,105 @@ import {
   users,
   subscriptions,
   articles,
+  articleDuplicates,
+  storyClusters,
   emailLogs,
   userPreferences,
   bookmarks,
+  userFeeds,
+  searchTerms,
+  sourceCache,
+  searchSessions,
+  sourceQuotaUsage,
+  embeddingJobs,
   type User,
   type UpsertUser,
   type Subscription,
   type InsertSubscription,
   type Article,
   type InsertArticle,
+  type SimilarArticle,
+  type ArticleDuplicate,
+  type InsertArticleDuplicate,
+  type StoryCluster,
+  type StoryCoverage,
   type EmailLog,
   type UserPreferences,
   type InsertUserPreferences,
   type Bookmark,
   type InsertBookmark,
+  type UserFeed,
+  type InsertUserFeed,
+  type SearchTerm,
+  type SourceCacheEntry,
+  type SearchSession,
+  type InsertSearchSession,
+  type EmbeddingJob,
+  type InsertEmbeddingJob,
+  type NewsSortMode,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, or, desc, gte, lte, ilike } from "drizzle-orm";
+import type { ArticleEmbedding, EmbeddingSpace } from "./embeddingService";
+import { phraseSearchQuery, searchDocument, searchQuery } from "./textSearch";
+import { parseSearchQuery, positiveTerms, type QueryNode } from "./queryParser";
+import {
+  eq,
+  and,
+  or,
+  desc,
+  gt,
+  gte,
+  lt,
+  lte,
+  ilike,
+  isNotNull,
+  not,
+  isNull,
+  inArray,
+  count,
+  sql,
+  getTableColumns,
+  type SQL,
+} from "drizzle-orm";
+
+export interface ArticleSearchParams {
+  keyword?: string;
+  startDate?: Date;
+  endDate?: Date;
+  source?: string;
+  publishers?: string[];
+  sort?: NewsSortMode; // "sim" ranks keyword matches by ts_rank; default newest first
+  createdBefore?: Date; // Only articles stored by then (a search session's snapshot)
+  limit?: number; // Default 100
+  offset?: number;
+}
+
+// Position after the last article of a page, in the page's sort order
+export interface ArticleCursor {
+  publishedAt: Date;
+  id: string;
+  rank?: string; // Rounded ts_rank for sort=sim, as text so it compares exactly
+}
+
+export interface ArticlePage {
+  articles: Article[];
+  next: ArticleCursor | null; // null = no more articles
+}
+
+// search_vector for an article: title outranks description, which outranks the body
+function articleSearchVector(article: Pick<InsertArticle, "title" | "description" | "content">): SQL {
+  return sql`setweight(to_tsvector('simple', ${searchDocument(article.title)}), 'A')
+    || setweight(to_tsvector('simple', ${searchDocument(article.description)}), 'B')
+    || setweight(to_tsvector('simple', ${searchDocument(article.content)}), 'C')`;
+}
+
+const SEARCH_VECTOR_BACKFILL_BATCH = 500;
+
+const HNSW_DEFAULT_EF_SEARCH = 40;
+const HNSW_MAX_EF_SEARCH = 1000;
+
+// Search filters without keyword or pagination (vector search ranks by similarity instead)
+export type ArticleFilters = Omit<ArticleSearchParams, "keyword" | "createdBefore" | "limit" | "offset">;
 
 export interface IStorage {
   // User operations (IMPORTANT: mandatory for Replit Auth)
@@ -35,15 +117,80 @@ export interface IStorage {
   
   // Article operations
   getArticles(limit?: number): Promise<Article[]>;
+  getArticle(id: string): Promise<Article | undefined>;
   getArticleByUrl(url: string): Promise<Article | undefined>;
+  getArticlesByUrls(urls: string[]): Promise<Article[]>;
+  getArticlesByIds(ids: string[]): Promise<Article[]>;
+  getArticleByCanonicalUrl(canonicalUrl: string): Promise<Article | undefined>;
+  getArticlesByCanonicalUrls(canonicalUrls: string[]): Promise<Article[]>;
+  getArticlesWithoutCanonicalUrl(limit: number, afterId?: string): Promise<Pick<Article, "id" | "url">[]>;
+  setArticleCanonicalUrl(id: string, canonicalUrl: string): Promise<boolean>; // false = taken by another article
+  // Overwrite a stored article with a preferred copy of the same story, keeping its id (story, bookmarks,
+  // recorded duplicates); undefined when the copy's URL or canonical URL belongs to another article
+  replaceArticle(id: string, article: InsertArticle): Promise<Article | undefined>;
+  // Store extracted body text, refreshing search_vector to include it
+  setArticleContent(article: Pick<Article, "id" | "title" | "description">, content: string): Promise<void>;
+  // Fill page metadata (og:image, site name, section) for an article stored before it was enriched
+  setArticlePageMetadata(id: string, metadata: Partial<Pick<Article, "imageUrl" | "publisher" | "category">>): Promise<void>;
   createArticle(article: InsertArticle): Promise<Article | undefined>;
-  searchArticles(params: {
-    keyword?: string;
-    startDate?: Date;
-    endDate?: Date;
-    source?: string;
-  }): Promise<Article[]>;
+  searchArticles(params: ArticleSearchParams): Promise<Article[]>;
+  // Keyset pagination: the page after `after` (offset is ignored)
+  getArticlePage(params: ArticleSearchParams, after?: ArticleCursor): Promise<ArticlePage>;
+  countArticles(params: ArticleSearchParams): Promise<number>;
+  getPublishers(): Promise<string[]>;
+  // Fill search_vector for articles stored before full-text search; returns rows updated
+  backfillSearchVectors(): Promise<number>;
+  // Nearest neighbours by cosine similarity among articles embedded with the same provider/model/size
+  findSimilarArticles(embedding: ArticleEmbedding, k: number, filters?: ArticleFilters): Promise<SimilarArticle[]>;
+  backfillEmbeddingVectors(): Promise<number>;
+  // Articles with no embedding or one from a provider/model other than target, in id order
+  getArticlesNeedingEmbedding(
+    target: Omit<EmbeddingSpace, "dimensions">,
+    limit: number,
+    afterId?: string,
+  ): Promise<Pick<Article, "id" | "title" | "description" | "content">[]>;
+  countArticlesNeedingEmbedding(target: Omit<EmbeddingSpace, "dimensions">): Promise<number>;
+  setArticleEmbedding(id: string, embedding: ArticleEmbedding): Promise<void>;
+  getRecentArticleKeys(since: Date): Promise<Pick<Article, "id" | "title" | "url" | "canonicalUrl">[]>;
+
+  // Duplicate operations (incoming copies merged into a stored article)
+  createArticleDuplicate(duplicate: InsertArticleDuplicate): Promise<boolean>; // false = already recorded
+  getArticleDuplicates(articleId: string): Promise<ArticleDuplicate[]>;
+
+  // Story cluster operations
+  createStoryCluster(article: Article): Promise<StoryCluster>;
+  addArticleToStoryCluster(clusterId: string, article: Article): Promise<void>;
+  addDuplicateToStoryCluster(clusterId: string, publishedAt: Date): Promise<void>;
+  getStoryCluster(id: string): Promise<StoryCluster | undefined>;
+  getStoryClustersByIds(ids: string[]): Promise<StoryCluster[]>;
+  getStoryClusters(params: { since?: Date; minArticles?: number; limit?: number }): Promise<StoryCluster[]>;
+  getStoryCoverage(clusterId: string): Promise<StoryCoverage[]>;
+
+  // Search term operations (keywords tracked by the background crawler)
+  recordSearchTerm(keyword: string): Promise<SearchTerm>;
+  // Terms users searched since the date (most searched first, at most limit)
+  getRecentSearchTerms(since: Date, limit: number): Promise<SearchTerm[]>;
+  markSearchTermCrawled(keyword: string): Promise<void>;
   
+  // Source cache operations (persistent news cache store)
+  getSourceCacheEntry(key: string): Promise<SourceCacheEntry | undefined>;
+  setSourceCacheEntry(entry: { key: string; sourceId: string; articles: unknown; expiresAt: Date }): Promise<void>;
+  deleteExpiredSourceCacheEntries(): Promise<void>;
+
+  // Search session operations (result snapshots for cursor pagination)
+  createSearchSession(session: InsertSearchSession): Promise<SearchSession>;
+  getSearchSession(id: string): Promise<SearchSession | undefined>; // undefined once expired
+  deleteExpiredSearchSessions(): Promise<void>;
+
+  // Source quota operations (daily request counts per metered source)
+  getSourceQuotaUsage(sourceId: string, day: string): Promise<number>;
+  incrementSourceQuotaUsage(sourceId: string, day: string, requests: number): Promise<number>;
+
+  // Embedding job operations (backfill runs)
+  createEmbeddingJob(job: InsertEmbeddingJob): Promise<EmbeddingJob>;
+  updateEmbeddingJob(id: string, updates: Partial<InsertEmbeddingJob>): Promise<EmbeddingJob | undefined>;
+  getLatestEmbeddingJob(): Promise<EmbeddingJob | undefined>;
+
   // Email log operations
   createEmailLog(log: {
     subscriptionId: string;
@@ -63,6 +210,12 @@ export interface IStorage {
   getBookmark(userId: string, articleId: string): Promise<Bookmark | undefined>;
   createBookmark(bookmark: InsertBookmark): Promise<Bookmark>;
   deleteBookmark(id: string): Promise<void>;
+
+  // User feed operations
+  getUserFeeds(userId: string): Promise<UserFeed[]>;
+  getUserFeed(id: string): Promise<UserFeed | undefined>;
+  createUserFeed(feed: InsertUserFeed): Promise<UserFeed>;
+  deleteUserFeed(id: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -132,6 +285,11 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async getArticle(id: string): Promise<Article | undefined> {
+    const [article] = await db.select().from(articles).where(eq(articles.id, id));
+    return article;
+  }
+
   async getArticleByUrl(url: string): Promise<Article | undefined> {
     const [article] = await db
       .select()
@@ -140,6 +298,107 @@ export class DatabaseStorage implements IStorage {
     return article;
   }
 
+  async getArticlesByUrls(urls: string[]): Promise<Article[]> {
+    if (urls.length === 0) return [];
+    return await db
+      .select()
+      .from(articles)
+      .where(inArray(articles.url, urls));
+  }
+
+  async getArticlesByIds(ids: string[]): Promise<Article[]> {
+    if (ids.length === 0) return [];
+    return await db
+      .select()
+      .from(articles)
+      .where(inArray(articles.id, ids));
+  }
+
+  async getArticleByCanonicalUrl(canonicalUrl: string): Promise<Article | undefined> {
+    const [article] = await db
+      .select()
+      .from(articles)
+      .where(eq(articles.canonicalUrl, canonicalUrl));
+    return article;
+  }
+
+  async getArticlesByCanonicalUrls(canonicalUrls: string[]): Promise<Article[]> {
+    if (canonicalUrls.length === 0) return [];
+    return await db
+      .select()
+      .from(articles)
+      .where(inArray(articles.canonicalUrl, canonicalUrls));
+  }
+
+  async getArticlesWithoutCanonicalUrl(limit: number, afterId?: string): Promise<Pick<Article, "id" | "url">[]> {
+    return await db
+      .select({ id: articles.id, url: articles.url })
+      .from(articles)
+      .where(and(isNull(articles.canonicalUrl), afterId ? gt(articles.id, afterId) : undefined))
+      .orderBy(articles.id)
+      .limit(limit);
+  }
+
+  async setArticleCanonicalUrl(id: string, canonicalUrl: string): Promise<boolean> {
+    try {
+      await db
+        .update(articles)
+        .set({ canonicalUrl })
+        .where(eq(articles.id, id));
+      return true;
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async replaceArticle(id: string, article: InsertArticle): Promise<Article | undefined> {
+    try {
+      const [replaced] = await db
+        .update(articles)
+        .set({
+          title: article.title,
+          description: article.description ?? null,
+          url: article.url,
+          canonicalUrl: article.canonicalUrl ?? null,
+          imageUrl: article.imageUrl ?? null,
+          source: article.source,
+          publisher: article.publisher ?? null,
+          publishedAt: new Date(article.publishedAt.toISOString()),
+          content: article.content ?? null,
+          category: article.category ?? null,
+          embedding: article.embedding ?? null,
+          embeddingProvider: article.embeddingProvider ?? null,
+          embeddingModel: article.embeddingModel ?? null,
+          embeddingDimensions: article.embeddingDimensions ?? null,
+          legacyEmbedding: null,
+          searchVector: articleSearchVector(article),
+        })
+        .where(eq(articles.id, id))
+        .returning();
+      return replaced;
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async setArticleContent(article: Pick<Article, "id" | "title" | "description">, content: string): Promise<void> {
+    await db
+      .update(articles)
+      .set({ content, searchVector: articleSearchVector({ ...article, content }) })
+      .where(eq(articles.id, article.id));
+  }
+
+  async setArticlePageMetadata(id: string, metadata: Partial<Pick<Article, "imageUrl" | "publisher" | "category">>): Promise<void> {
+    if (Object.keys(metadata).length === 0) return;
+    await db.update(articles).set(metadata).where(eq(articles.id, id));
+  }
+
   async createArticle(article: InsertArticle): Promise<Article | undefined> {
     try {
       // Normalize publishedAt to UTC to avoid timezone drift issues
@@ -150,38 +409,93 @@ export class DatabaseStorage implements IStorage {
       
       const [created] = await db
         .insert(articles)
-        .values(normalizedArticle)
+        .values({ ...normalizedArticle, searchVector: articleSearchVector(article) })
         .returning();
       return created;
     } catch (error: any) {
-      // If unique constraint violation (duplicate URL), fetch existing article
+      // If unique constraint violation (duplicate URL or canonical URL), fetch existing article
       if (error?.code === '23505') {
         const existing = await this.getArticleByUrl(article.url);
-        return existing;
+        if (existing || !article.canonicalUrl) {
+          return existing;
+        }
+        return await this.getArticleByCanonicalUrl(article.canonicalUrl);
       }
       throw error;
     }
   }
 
-  async searchArticles(params: {
-    keyword?: string;
-    startDate?: Date;
-    endDate?: Date;
-    source?: string;
-  }): Promise<Article[]> {
-    let query = db.select().from(articles);
+  // Full-text match on search_vector (GIN-indexed); terms with no searchable characters
+  // fall back to a substring match. Every row has a search_vector: createArticle sets it
+  // and backfillSearchVectors fills rows stored before full-text search at startup.
+  private termCondition(value: string, phrase: boolean): SQL {
+    const tsQuery = phrase ? phraseSearchQuery(value) : searchQuery(value);
+    if (tsQuery) {
+      return sql`${articles.searchVector} @@ to_tsquery('simple', ${tsQuery})`;
+    }
+    const pattern = `%${value}%`;
+    return or(
+      ilike(articles.title, pattern),
+      ilike(articles.description, pattern),
+      ilike(articles.content, pattern)
+    )!;
+  }
+
+  private queryCondition(node: QueryNode): SQL {
+    switch (node.type) {
+      case "term":
+        return this.termCondition(node.value, node.phrase);
+      case "site": {
+        // The domain itself or any subdomain, as the host of the source URL or the
+        // publisher's canonical URL (Naver links point at n.news.naver.com)
+        const domain = node.domain.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        const hostPattern = `^https?://([^/]*\\.)?${domain}(:[0-9]+)?(/|$)`;
+        return sql`(${articles.url} ~* ${hostPattern} or coalesce(${articles.canonicalUrl}, '') ~* ${hostPattern})`;
+      }
+      case "not":
+        // NULL columns make the match NULL, which must still count as "not matched"
+        return not(sql`coalesce(${this.queryCondition(node.child)}, false)`);
+      case "and":
+        return and(...node.children.map((child) => this.queryCondition(child)))!;
+      case "or":
+        return or(...node.children.map((child) => this.queryCondition(child)))!;
+    }
+  }
+
+  // ts_rank against any of the query's positive terms, rounded so a cursor can carry it exactly.
+  // Rows without a search_vector (not yet backfilled) rank last (-1).
+  private rankExpression(keyword: string): SQL<string> | null {
+    const query = parseSearchQuery(keyword);
+    const termQueries = query
+      ? positiveTerms(query)
+          .map((term) => (term.phrase ? phraseSearchQuery(term.value) : searchQuery(term.value)))
+          .filter((tsQuery): tsQuery is string => !!tsQuery)
+      : [searchQuery(keyword)].filter((tsQuery): tsQuery is string => !!tsQuery);
+    if (termQueries.length === 0) return null;
+    const tsQuery = termQueries.map((termQuery) => `(${termQuery})`).join(" | ");
+    return sql<string>`coalesce(round(ts_rank(${articles.searchVector}, to_tsquery('simple', ${tsQuery}))::numeric, 6), -1)`;
+  }
+
+  // Rows strictly after the cursor in (rank,) publishedAt desc, id desc order
+  private afterCursor(after: ArticleCursor, rank: SQL<string> | null): SQL {
+    const afterDate = or(
+      lt(articles.publishedAt, after.publishedAt),
+      and(eq(articles.publishedAt, after.publishedAt), lt(articles.id, after.id)),
+    )!;
+    if (!rank || after.rank === undefined) return afterDate;
+    return or(
+      sql`${rank} < ${after.rank}::numeric`,
+      and(sql`${rank} = ${after.rank}::numeric`, afterDate),
+    )!;
+  }
 
+  private buildArticleConditions(params: ArticleSearchParams): SQL | undefined {
     const conditions = [];
 
-    // Keyword filtering: search in title and description (case-insensitive)
+    // Keyword filtering: the parsed query (see queryParser.ts) translated to SQL
     if (params.keyword) {
-      const keywordPattern = `%${params.keyword}%`;
-      conditions.push(
-        or(
-          ilike(articles.title, keywordPattern),
-          ilike(articles.description, keywordPattern)
-        )!
-      );
+      const query = parseSearchQuery(params.keyword);
+      conditions.push(query ? this.queryCondition(query) : this.termCondition(params.keyword, false));
     }
 
     if (params.startDate) {
@@ -196,11 +510,452 @@ export class DatabaseStorage implements IStorage {
       conditions.push(eq(articles.source, params.source));
     }
 
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions)) as any;
+    if (params.publishers && params.publishers.length > 0) {
+      conditions.push(inArray(articles.publisher, params.publishers));
+    }
+
+    if (params.createdBefore) {
+      conditions.push(or(isNull(articles.createdAt), lte(articles.createdAt, params.createdBefore))!);
+    }
+
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  }
+
+  async searchArticles(params: ArticleSearchParams): Promise<Article[]> {
+    const rank = params.keyword && params.sort === "sim" ? this.rankExpression(params.keyword) : null;
+
+    return await db
+      .select()
+      .from(articles)
+      .where(this.buildArticleConditions(params))
+      // id breaks publishedAt ties so offset pages don't overlap
+      .orderBy(...(rank ? [desc(rank)] : []), desc(articles.publishedAt), desc(articles.id))
+      .limit(params.limit ?? 100)
+      .offset(params.offset ?? 0);
+  }
+
+  async getArticlePage(params: ArticleSearchParams, after?: ArticleCursor): Promise<ArticlePage> {
+    const rank = params.keyword && params.sort === "sim" ? this.rankExpression(params.keyword) : null;
+    const limit = params.limit ?? 100;
+
+    // One extra row tells whether another page follows
+    const rows = await db
+      .select({ ...getTableColumns(articles), rank: rank ?? sql<string | null>`null` })
+      .from(articles)
+      .where(and(this.buildArticleConditions(params), after ? this.afterCursor(after, rank) : undefined))
+      .orderBy(...(rank ? [desc(rank)] : []), desc(articles.publishedAt), desc(articles.id))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      articles: page.map(({ rank: _rank, ...article }) => article),
+      next: rows.length > limit && last
+        ? { publishedAt: last.publishedAt, id: last.id, ...(rank && { rank: String(last.rank) }) }
+        : null,
+    };
+  }
+
+  async countArticles(params: ArticleSearchParams): Promise<number> {
+    const [result] = await db
+      .select({ total: count() })
+      .from(articles)
+      .where(this.buildArticleConditions(params));
+    return result.total;
+  }
+
+  async getPublishers(): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ publisher: articles.publisher })
+      .from(articles)
+      .where(isNotNull(articles.publisher))
+      .orderBy(articles.publisher);
+    return rows.map((row) => row.publisher!);
+  }
+
+  async findSimilarArticles(embedding: ArticleEmbedding, k: number, filters: ArticleFilters = {}): Promise<SimilarArticle[]> {
+    if (!Number.isInteger(embedding.dimensions) || embedding.dimensions <= 0) {
+      throw new Error(`Invalid embedding dimensions: ${embedding.dimensions}`);
+    }
+
+    // Cast to the fixed size so the matching partial HNSW index can be used
+    const vectorType = sql.raw(`vector(${embedding.dimensions})`);
+    const distance = sql<number>`(${articles.embedding}::${vectorType}) <=> (${JSON.stringify(embedding.vector)}::${vectorType})`;
+
+    const nearest = (executor: Pick<typeof db, "select">) => executor
+      .select({ ...getTableColumns(articles), similarity: sql<number>`1 - ${distance}` })
+      .from(articles)
+      .where(and(
+        isNotNull(articles.embedding),
+        eq(articles.embeddingProvider, embedding.provider),
+        eq(articles.embeddingModel, embedding.model),
+        eq(articles.embeddingDimensions, embedding.dimensions),
+        this.buildArticleConditions(filters),
+      ))
+      .orderBy(distance)
+      .limit(k);
+
+    if (k <= HNSW_DEFAULT_EF_SEARCH) {
+      return await nearest(db);
+    }
+    // An HNSW scan returns at most hnsw.ef_search rows, so widen it for larger k
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql.raw(`set local hnsw.ef_search = ${Math.min(k, HNSW_MAX_EF_SEARCH)}`));
+      return await nearest(tx);
+    });
+  }
+
+  // Copy embeddings stored as jsonb before the pgvector column existed; returns rows updated
+  async backfillEmbeddingVectors(): Promise<number> {
+    const updated = await db
+      .update(articles)
+      .set({
+        embedding: sql`${articles.legacyEmbedding}::text::vector`,
+        // Rows from before provider tracking were all embedded with text-embedding-3-small
+        embeddingProvider: sql`coalesce(${articles.embeddingProvider}, 'openai')`,
+        embeddingModel: sql`coalesce(${articles.embeddingModel}, 'text-embedding-3-small')`,
+        embeddingDimensions: sql`jsonb_array_length(${articles.legacyEmbedding})`,
+        legacyEmbedding: null,
+      })
+      .where(and(
+        isNull(articles.embedding),
+        isNotNull(articles.legacyEmbedding),
+        sql`jsonb_typeof(${articles.legacyEmbedding}) = 'array'`,
+        sql`jsonb_array_length(${articles.legacyEmbedding}) > 0`,
+      ))
+      .returning({ id: articles.id });
+    return updated.length;
+  }
+
+  private needsEmbedding(target: Omit<EmbeddingSpace, "dimensions">): SQL {
+    return or(
+      isNull(articles.embedding),
+      sql`${articles.embeddingProvider} is distinct from ${target.provider}`,
+      sql`${articles.embeddingModel} is distinct from ${target.model}`,
+    )!;
+  }
+
+  async getArticlesNeedingEmbedding(
+    target: Omit<EmbeddingSpace, "dimensions">,
+    limit: number,
+    afterId?: string,
+  ): Promise<Pick<Article, "id" | "title" | "description" | "content">[]> {
+    return await db
+      .select({ id: articles.id, title: articles.title, description: articles.description, content: articles.content })
+      .from(articles)
+      .where(and(this.needsEmbedding(target), afterId ? gt(articles.id, afterId) : undefined))
+      .orderBy(articles.id)
+      .limit(limit);
+  }
+
+  async countArticlesNeedingEmbedding(target: Omit<EmbeddingSpace, "dimensions">): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(articles)
+      .where(this.needsEmbedding(target));
+    return result?.count ?? 0;
+  }
+
+  async setArticleEmbedding(id: string, embedding: ArticleEmbedding): Promise<void> {
+    await db
+      .update(articles)
+      .set({
+        embedding: embedding.vector,
+        embeddingProvider: embedding.provider,
+        embeddingModel: embedding.model,
+        embeddingDimensions: embedding.dimensions,
+        legacyEmbedding: null,
+      })
+      .where(eq(articles.id, id));
+  }
+
+  async backfillSearchVectors(): Promise<number> {
+    let updated = 0;
+    let afterId: string | undefined;
+
+    for (;;) {
+      const batch = await db
+        .select({ id: articles.id, title: articles.title, description: articles.description, content: articles.content })
+        .from(articles)
+        .where(and(isNull(articles.searchVector), afterId ? gt(articles.id, afterId) : undefined))
+        .orderBy(articles.id)
+        .limit(SEARCH_VECTOR_BACKFILL_BATCH);
+      if (batch.length === 0) break;
+
+      for (const article of batch) {
+        await db
+          .update(articles)
+          .set({ searchVector: articleSearchVector(article) })
+          .where(eq(articles.id, article.id));
+      }
+      updated += batch.length;
+      afterId = batch[batch.length - 1].id;
+    }
+
+    return updated;
+  }
+
+  async getRecentArticleKeys(since: Date): Promise<Pick<Article, "id" | "title" | "url" | "canonicalUrl">[]> {
+    return await db
+      .select({ id: articles.id, title: articles.title, url: articles.url, canonicalUrl: articles.canonicalUrl })
+      .from(articles)
+      .where(gte(articles.publishedAt, since));
+  }
+
+  // Duplicate operations
+  async createArticleDuplicate(duplicate: InsertArticleDuplicate): Promise<boolean> {
+    const inserted = await db
+      .insert(articleDuplicates)
+      .values(duplicate)
+      .onConflictDoNothing()
+      .returning({ id: articleDuplicates.id });
+    return inserted.length > 0;
+  }
+
+  async getArticleDuplicates(articleId: string): Promise<ArticleDuplicate[]> {
+    return await db
+      .select()
+      .from(articleDuplicates)
+      .where(eq(articleDuplicates.articleId, articleId))
+      .orderBy(desc(articleDuplicates.publishedAt));
+  }
+
+  // Story cluster operations
+  async createStoryCluster(article: Article): Promise<StoryCluster> {
+    return await db.transaction(async (tx) => {
+      const [cluster] = await tx
+        .insert(storyClusters)
+        .values({
+          headline: article.title,
+          representativeArticleId: article.id,
+          firstSeenAt: article.publishedAt,
+          lastUpdatedAt: article.publishedAt,
+        })
+        .returning();
+      await tx
+        .update(articles)
+        .set({ clusterId: cluster.id })
+        .where(eq(articles.id, article.id));
+      return cluster;
+    });
+  }
+
+  async addArticleToStoryCluster(clusterId: string, article: Article): Promise<void> {
+    // An earlier article becomes the story's representative
+    const isEarlier = sql`${article.publishedAt} < ${storyClusters.firstSeenAt}`;
+    await db.transaction(async (tx) => {
+      await tx
+        .update(articles)
+        .set({ clusterId })
+        .where(eq(articles.id, article.id));
+      await tx
+        .update(storyClusters)
+        .set({
+          articleCount: sql`${storyClusters.articleCount} + 1`,
+          headline: sql`case when ${isEarlier} then ${article.title} else ${storyClusters.headline} end`,
+          representativeArticleId: sql`case when ${isEarlier} then ${article.id} else ${storyClusters.representativeArticleId} end`,
+          firstSeenAt: sql`least(${storyClusters.firstSeenAt}, ${article.publishedAt})`,
+          lastUpdatedAt: sql`greatest(${storyClusters.lastUpdatedAt}, ${article.publishedAt})`,
+        })
+        .where(eq(storyClusters.id, clusterId));
+    });
+  }
+
+  async addDuplicateToStoryCluster(clusterId: string, publishedAt: Date): Promise<void> {
+    await db
+      .update(storyClusters)
+      .set({
+        articleCount: sql`${storyClusters.articleCount} + 1`,
+        firstSeenAt: sql`least(${storyClusters.firstSeenAt}, ${publishedAt})`,
+        lastUpdatedAt: sql`greatest(${storyClusters.lastUpdatedAt}, ${publishedAt})`,
+      })
+      .where(eq(storyClusters.id, clusterId));
+  }
+
+  async getStoryCluster(id: string): Promise<StoryCluster | undefined> {
+    const [cluster] = await db
+      .select()
+      .from(storyClusters)
+      .where(eq(storyClusters.id, id));
+    return cluster;
+  }
+
+  async getStoryClustersByIds(ids: string[]): Promise<StoryCluster[]> {
+    if (ids.length === 0) return [];
+    return await db
+      .select()
+      .from(storyClusters)
+      .where(inArray(storyClusters.id, ids));
+  }
+
+  async getStoryClusters(params: { since?: Date; minArticles?: number; limit?: number }): Promise<StoryCluster[]> {
+    const conditions = [gte(storyClusters.articleCount, params.minArticles ?? 1)];
+    if (params.since) {
+      conditions.push(gte(storyClusters.lastUpdatedAt, params.since));
     }
+    return await db
+      .select()
+      .from(storyClusters)
+      .where(and(...conditions))
+      .orderBy(desc(storyClusters.lastUpdatedAt), desc(storyClusters.articleCount))
+      .limit(params.limit ?? 50);
+  }
 
-    return await query.orderBy(desc(articles.publishedAt)).limit(100);
+  async getStoryCoverage(clusterId: string): Promise<StoryCoverage[]> {
+    const stored = await db
+      .select({
+        articleId: articles.id,
+        title: articles.title,
+        url: articles.url,
+        source: articles.source,
+        publisher: articles.publisher,
+        publishedAt: articles.publishedAt,
+      })
+      .from(articles)
+      .where(eq(articles.clusterId, clusterId));
+    if (stored.length === 0) return [];
+
+    const duplicates = await db
+      .select({
+        title: articleDuplicates.title,
+        url: articleDuplicates.url,
+        source: articleDuplicates.source,
+        publisher: articleDuplicates.publisher,
+        publishedAt: articleDuplicates.publishedAt,
+      })
+      .from(articleDuplicates)
+      .where(inArray(articleDuplicates.articleId, stored.map((a) => a.articleId)));
+
+    return [...stored, ...duplicates.map((d) => ({ ...d, articleId: null }))]
+      .sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime());
+  }
+
+  // Search term operations
+  async recordSearchTerm(keyword: string): Promise<SearchTerm> {
+    const [term] = await db
+      .insert(searchTerms)
+      .values({ keyword })
+      .onConflictDoUpdate({
+        target: searchTerms.keyword,
+        set: {
+          searchCount: sql`${searchTerms.searchCount} + 1`,
+          lastSearchedAt: new Date(),
+        },
+      })
+      .returning();
+    return term;
+  }
+
+  async getRecentSearchTerms(since: Date, limit: number): Promise<SearchTerm[]> {
+    return await db
+      .select()
+      .from(searchTerms)
+      // searchCount 0 = only ever crawled (subscription keywords)
+      .where(and(gte(searchTerms.lastSearchedAt, since), gt(searchTerms.searchCount, 0)))
+      .orderBy(desc(searchTerms.searchCount), desc(searchTerms.lastSearchedAt))
+      .limit(limit);
+  }
+
+  async markSearchTermCrawled(keyword: string): Promise<void> {
+    await db
+      .insert(searchTerms)
+      .values({ keyword, searchCount: 0, lastCrawledAt: new Date() })
+      .onConflictDoUpdate({
+        target: searchTerms.keyword,
+        set: { lastCrawledAt: new Date() },
+      });
+  }
+
+  // Source cache operations
+  async getSourceCacheEntry(key: string): Promise<SourceCacheEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(sourceCache)
+      .where(and(eq(sourceCache.key, key), gt(sourceCache.expiresAt, new Date())));
+    return entry;
+  }
+
+  async setSourceCacheEntry(entry: { key: string; sourceId: string; articles: unknown; expiresAt: Date }): Promise<void> {
+    await db
+      .insert(sourceCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: sourceCache.key,
+        set: { articles: entry.articles, expiresAt: entry.expiresAt, createdAt: new Date() },
+      });
+  }
+
+  async deleteExpiredSourceCacheEntries(): Promise<void> {
+    await db.delete(sourceCache).where(lt(sourceCache.expiresAt, new Date()));
+  }
+
+  // Search session operations
+  async createSearchSession(session: InsertSearchSession): Promise<SearchSession> {
+    const [created] = await db.insert(searchSessions).values(session).returning();
+    return created;
+  }
+
+  async getSearchSession(id: string): Promise<SearchSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(searchSessions)
+      .where(and(eq(searchSessions.id, id), gt(searchSessions.expiresAt, new Date())));
+    return session;
+  }
+
+  async deleteExpiredSearchSessions(): Promise<void> {
+    await db.delete(searchSessions).where(lt(searchSessions.expiresAt, new Date()));
+  }
+
+  // Source quota operations
+  async getSourceQuotaUsage(sourceId: string, day: string): Promise<number> {
+    const [usage] = await db
+      .select()
+      .from(sourceQuotaUsage)
+      .where(and(eq(sourceQuotaUsage.sourceId, sourceId), eq(sourceQuotaUsage.day, day)));
+    return usage?.requestCount ?? 0;
+  }
+
+  async incrementSourceQuotaUsage(sourceId: string, day: string, requests: number): Promise<number> {
+    const [usage] = await db
+      .insert(sourceQuotaUsage)
+      .values({ sourceId, day, requestCount: requests })
+      .onConflictDoUpdate({
+        target: [sourceQuotaUsage.sourceId, sourceQuotaUsage.day],
+        set: {
+          requestCount: sql`${sourceQuotaUsage.requestCount} + ${requests}`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return usage.requestCount;
+  }
+
+  // Embedding job operations
+  async createEmbeddingJob(job: InsertEmbeddingJob): Promise<EmbeddingJob> {
+    const [created] = await db
+      .insert(embeddingJobs)
+      .values(job)
+      .returning();
+    return created;
+  }
+
+  async updateEmbeddingJob(id: string, updates: Partial<InsertEmbeddingJob>): Promise<EmbeddingJob | undefined> {
+    const [updated] = await db
+      .update(embeddingJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(embeddingJobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getLatestEmbeddingJob(): Promise<EmbeddingJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(embeddingJobs)
+      .orderBy(desc(embeddingJobs.startedAt))
+      .limit(1);
+    return job;
   }
 
   // Email log operations
@@ -249,8 +1004,10 @@ export class DatabaseStorage implements IStorage {
         target: userPreferences.userId,
         set: {
           favoriteSources: preferences.favoriteSources,
+          favoritePublishers: preferences.favoritePublishers,
           favoriteCategories: preferences.favoriteCategories,
           language: preferences.language,
+          dedupPolicy: preferences.dedupPolicy ?? null, // null clears the override
           updatedAt: new Date(),
         },
       })
@@ -297,6 +1054,35 @@ export class DatabaseStorage implements IStorage {
   async deleteBookmark(id: string): Promise<void> {
     await db.delete(bookmarks).where(eq(bookmarks.id, id));
   }
+
+  // User feed operations
+  async getUserFeeds(userId: string): Promise<UserFeed[]> {
+    return await db
+      .select()
+      .from(userFeeds)
+      .where(eq(userFeeds.userId, userId))
+      .orderBy(desc(userFeeds.createdAt));
+  }
+
+  async getUserFeed(id: string): Promise<UserFeed | undefined> {
+    const [feed] = await db
+      .select()
+      .from(userFeeds)
+      .where(eq(userFeeds.id, id));
+    return feed;
+  }
+
+  async createUserFeed(feed: InsertUserFeed): Promise<UserFeed> {
+    const [created] = await db
+      .insert(userFeeds)
+      .values(feed)
+      .returning();
+    return created;
+  }
+
+  async deleteUserFeed(id: string): Promise<void> {
+    await db.delete(userFeeds).where(eq(userFeeds.id, id));
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,103 @@
+import type { Article, RelatedArticle, RelatedArticles } from "@shared/schema";
+import { storage } from "./storage";
+import { areArticlesSimilar, embeddingFromArticle } from "./embeddingService";
+
+/*
+ * Story clustering
+ * Every newly stored article joins the story of its most similar recent
+ * article (same embedding provider/model) or starts a new one. Duplicates
+ * dropped by deduplication count towards the story of the article they
+ * were merged into, so a story shows how many outlets covered an event.
+ */
+
+// Looser than the dedup threshold: related coverage of one event, not copies of one article
+const STORY_SIMILARITY_THRESHOLD = 0.75;
+const STORY_WINDOW_DAYS = 3; // Only join stories with articles published this recently
+const STORY_CANDIDATES = 5;
+// Embedding neighbours below this are too loosely related to show as related coverage
+const RELATED_SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * Put a newly stored article into a story cluster
+ * Articles without an embedding start their own story
+ */
+export async function assignStoryCluster(article: Article): Promise<void> {
+  if (article.clusterId) return;
+
+  try {
+    const embedding = embeddingFromArticle(article);
+    if (embedding) {
+      const since = new Date(article.publishedAt.getTime() - STORY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+      const neighbours = await storage.findSimilarArticles(embedding, STORY_CANDIDATES, { startDate: since });
+
+      const match = neighbours.find((neighbour) => {
+        const neighbourEmbedding = embeddingFromArticle(neighbour);
+        return neighbour.id !== article.id
+          && neighbour.clusterId
+          && neighbourEmbedding
+          && areArticlesSimilar(embedding, neighbourEmbedding, STORY_SIMILARITY_THRESHOLD);
+      });
+
+      if (match?.clusterId) {
+        await storage.addArticleToStoryCluster(match.clusterId, article);
+        return;
+      }
+    }
+
+    await storage.createStoryCluster(article);
+  } catch (error) {
+    console.error("[StoryClusters] Error assigning story cluster:", error);
+  }
+}
+
+// Count a recorded duplicate towards the story of the article it was merged into
+export async function addDuplicateToStory(articleId: string, publishedAt: Date): Promise<void> {
+  try {
+    const article = await storage.getArticle(articleId);
+    if (article?.clusterId) {
+      await storage.addDuplicateToStoryCluster(article.clusterId, publishedAt);
+    }
+  } catch (error) {
+    console.error("[StoryClusters] Error counting duplicate:", error);
+  }
+}
+
+/**
+ * Related coverage for the article detail drawer
+ * The article's story (every outlet's copy, incl. recorded duplicates) plus up to
+ * `limit` nearest embedding neighbours from other stories, ordered by publication time
+ */
+export async function getRelatedArticles(article: Article, limit: number): Promise<RelatedArticles> {
+  const [story, coverage] = article.clusterId
+    ? await Promise.all([storage.getStoryCluster(article.clusterId), storage.getStoryCoverage(article.clusterId)])
+    : [undefined, []];
+
+  const related: RelatedArticle[] = coverage
+    .filter((item) => item.url !== article.url)
+    .map((item) => ({ ...item, relation: "story", similarity: null }));
+
+  const embedding = embeddingFromArticle(article);
+  if (embedding) {
+    const seen = new Set([article.url, ...related.map((item) => item.url)]);
+    // Ask for extra neighbours: the article itself and its story are among the nearest
+    const neighbours = await storage.findSimilarArticles(embedding, limit + coverage.length + 1);
+    const similar = neighbours
+      .filter((neighbour) => !seen.has(neighbour.url) && neighbour.similarity >= RELATED_SIMILARITY_THRESHOLD)
+      .slice(0, limit);
+    for (const neighbour of similar) {
+      related.push({
+        articleId: neighbour.id,
+        title: neighbour.title,
+        url: neighbour.url,
+        source: neighbour.source,
+        publisher: neighbour.publisher,
+        publishedAt: neighbour.publishedAt,
+        relation: "similar",
+        similarity: neighbour.similarity,
+      });
+    }
+  }
+
+  related.sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime());
+  return { articleId: article.id, story: story ?? null, related };
+}
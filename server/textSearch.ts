@@ -0,0 +1,128 @@
+import type { Article, SearchHighlight, TextSegment } from "@shared/schema";
+
+/*
+ * Full-text search tokenization
+ * Postgres has no Korean parser, and Korean attaches particles to words
+ * ("삼성전자는"), so Hangul runs are indexed as overlapping character bigrams:
+ * "삼성전자는" → 삼성 성전 전자 자는, which a search for "삼성" or "삼성전자"
+ * matches. Other words are indexed whole (lowercased). The tokens are built
+ * here and handed to the 'simple' configuration, for both articles.search_vector
+ * and the query, so both sides always tokenize identically.
+ */
+
+// Built with the constructor: the compiler target predates the u flag in regex literals
+const WORD_PATTERN = new RegExp("[\\p{L}\\p{N}]+", "gu");
+const HANGUL_PATTERN = new RegExp("\\p{Script=Hangul}+", "gu");
+const HANGUL_CHAR = new RegExp("\\p{Script=Hangul}", "u");
+const SNIPPET_LENGTH = 160;
+const MIN_PREFIX_LENGTH = 3; // Shorter non-Hangul query words match exactly
+
+function wordTokens(word: string): string[] {
+  const tokens: string[] = [];
+  let lastIndex = 0;
+
+  // A word can mix scripts ("lg전자"): Hangul runs become bigrams, the rest stays whole
+  for (const match of Array.from(word.matchAll(HANGUL_PATTERN))) {
+    if (match.index! > lastIndex) tokens.push(word.slice(lastIndex, match.index));
+    const run = match[0];
+    if (run.length === 1) {
+      tokens.push(run);
+    } else {
+      for (let i = 0; i < run.length - 1; i++) tokens.push(run.slice(i, i + 2));
+    }
+    lastIndex = match.index! + run.length;
+  }
+  if (lastIndex < word.length) tokens.push(word.slice(lastIndex));
+
+  return tokens;
+}
+
+// Lexemes for text, in order (repeats kept so the tsvector records positions)
+export function searchTokens(text: string | null | undefined): string[] {
+  if (!text) return [];
+  const words = text.normalize("NFC").toLowerCase().match(WORD_PATTERN) || [];
+  return words.flatMap(wordTokens);
+}
+
+// Space-separated lexemes for to_tsvector('simple', ...)
+export function searchDocument(text: string | null | undefined): string {
+  return searchTokens(text).join(" ");
+}
+
+// Bigrams match exactly and a lone syllable as a prefix, so "삼" finds the 삼성 bigram;
+// non-Hangul words of 3+ characters match as a prefix ("chip" finds "chips"), shorter
+// ones exactly, so "C++" (c) doesn't match every word starting with c
+function queryLexeme(token: string): string {
+  if (HANGUL_CHAR.test(token)) {
+    return token.length === 2 ? token : `${token}:*`;
+  }
+  return token.length >= MIN_PREFIX_LENGTH ? `${token}:*` : token;
+}
+
+// Lexemes of consecutive tokens must be adjacent, so "삼성전자" needs 삼성 성전 전자 in a row
+function adjacentQuery(tokens: string[]): string {
+  const query = tokens.map(queryLexeme).join(" <-> ");
+  return tokens.length > 1 ? `(${query})` : query;
+}
+
+/**
+ * to_tsquery('simple', ...) text requiring every query word
+ * Returns null when the query has no searchable characters. Tokens are
+ * letters/digits only, so they can't inject tsquery operators.
+ */
+export function searchQuery(query: string): string | null {
+  const words = Array.from(new Set(query.normalize("NFC").toLowerCase().match(WORD_PATTERN) || []));
+  if (words.length === 0) return null;
+  return words.map((word) => adjacentQuery(wordTokens(word))).join(" & ");
+}
+
+// Like searchQuery, but the words must appear consecutively ("전기차 충전" → 전기 <-> 기차 <-> 충전)
+export function phraseSearchQuery(phrase: string): string | null {
+  const tokens = searchTokens(phrase);
+  if (tokens.length === 0) return null;
+  return adjacentQuery(tokens);
+}
+
+// Split text into segments, flagging case-insensitive occurrences of any query word
+function highlightSegments(text: string, words: string[]): TextSegment[] {
+  if (!text) return [];
+  if (words.length === 0) return [{ text, match: false }];
+  const escaped = words.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const pattern = new RegExp(`(${escaped.join("|")})`, "giu");
+
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: words.some((word) => part.toLowerCase() === word) }));
+}
+
+/**
+ * Title and a snippet around the first query match, split into highlighted segments
+ * Matching is on the query's words as typed, so "삼성" is marked inside "삼성전자는"
+ */
+export function highlightArticle(
+  article: Pick<Article, "title" | "description" | "content">,
+  query: string,
+): SearchHighlight {
+  const words = Array.from(new Set(query.normalize("NFC").toLowerCase().match(WORD_PATTERN) || []))
+    .sort((a, b) => b.length - a.length); // Prefer the longest match at a position
+
+  const body = (article.description || article.content || "").replace(/\s+/g, " ").trim();
+  const lowerBody = body.toLowerCase();
+  const firstMatch = words
+    .map((word) => lowerBody.indexOf(word))
+    .filter((index) => index !== -1)
+    .reduce((min, index) => Math.min(min, index), Infinity);
+
+  // Start a little before a match that wouldn't fit in the opening window
+  const start = firstMatch !== Infinity && firstMatch > SNIPPET_LENGTH / 2
+    ? firstMatch - Math.floor(SNIPPET_LENGTH / 4)
+    : 0;
+  const end = start + SNIPPET_LENGTH;
+  const snippet = `${start > 0 ? "…" : ""}${body.slice(start, end)}${end < body.length ? "…" : ""}`;
+
+  return {
+    title: highlightSegments(article.title, words),
+    snippet: highlightSegments(snippet, words),
+  };
+}
@@ -0,0 +1,135 @@
+import { storage } from "./storage";
+
+/*
+ * URL canonicalization
+ * The same article arrives as Naver's n.news.naver.com link, the publisher's
+ * originallink, NewsAPI URLs with utm_* params and Bing's apiclick.aspx
+ * redirect wrapper. canonicalizeUrl maps these onto one form, stored in
+ * articles.canonical_url (unique) next to the original articles.url, and
+ * deduplication compares canonical URLs rather than raw strings.
+ */
+
+// Redirect wrappers: host + path whose query parameter carries the real URL
+const REDIRECTORS: Array<{ host: RegExp; path: RegExp; param: string }> = [
+  { host: /(^|\.)bing\.com$/, path: /^\/news\/apiclick\.aspx$/i, param: "url" },
+  { host: /(^|\.)google\.[a-z.]+$/, path: /^\/url$/, param: "url" },
+  { host: /(^|\.)google\.[a-z.]+$/, path: /^\/url$/, param: "q" },
+  { host: /^l\.facebook\.com$/, path: /^\/l\.php$/, param: "u" },
+  { host: /^out\.reddit\.com$/, path: /^\//, param: "url" },
+];
+
+// Query parameters that only identify the campaign or referrer, never the page
+const TRACKING_PARAM_PATTERN = /^(utm_\w+|fbclid|gclid|dclid|msclkid|igshid|mc_cid|mc_eid|ocid|cmpid|ref_src|_ga)$/i;
+
+const NAVER_NEWS_HOSTS = /^(n\.news|news|m\.news)\.naver\.com$/;
+const MAX_REDIRECT_UNWRAPS = 3;
+
+// Naver serves one article under several hosts and paths; office id + article id identify it
+function canonicalNaverUrl(url: URL): string | null {
+  if (!NAVER_NEWS_HOSTS.test(url.hostname)) return null;
+
+  const pathMatch = url.pathname.match(/^\/(?:mnews\/)?article\/(\d+)\/(\d+)/);
+  const oid = pathMatch?.[1] ?? url.searchParams.get("oid");
+  const aid = pathMatch?.[2] ?? url.searchParams.get("aid");
+  if (!oid || !aid) return null;
+
+  return `https://n.news.naver.com/mnews/article/${oid}/${aid}`;
+}
+
+function unwrapRedirect(url: URL): URL | null {
+  for (const redirector of REDIRECTORS) {
+    if (!redirector.host.test(url.hostname) || !redirector.path.test(url.pathname)) continue;
+    const target = url.searchParams.get(redirector.param);
+    if (!target) continue;
+    try {
+      return new URL(target);
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Canonical form of an article URL
+ * Unwraps known redirectors, strips tracking params and fragments, and
+ * normalizes scheme, host, default ports, trailing slashes and param order.
+ * Unparseable URLs are returned unchanged.
+ */
+export function canonicalizeUrl(rawUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    return rawUrl;
+  }
+
+  for (let i = 0; i < MAX_REDIRECT_UNWRAPS; i++) {
+    const target = unwrapRedirect(url);
+    if (!target) break;
+    url = target;
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return url.href;
+  }
+
+  url.hostname = url.hostname.toLowerCase();
+  const naver = canonicalNaverUrl(url);
+  if (naver) return naver;
+
+  url.protocol = "https:";
+  url.port = "";
+  url.hash = "";
+  url.username = "";
+  url.password = "";
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([name]) => !TRACKING_PARAM_PATTERN.test(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  url.search = new URLSearchParams(params).toString();
+
+  if (url.pathname.length > 1) {
+    url.pathname = url.pathname.replace(/\/+$/, "") || "/";
+  }
+
+  return url.href;
+}
+
+/**
+ * Canonical URL announced by a page (<link rel="canonical"> or og:url), resolved against the page URL
+ * Ignored when it points at a site's home page, which some publishers use as a catch-all
+ */
+export function canonicalFromPageLink(href: string | null, pageUrl: string): string | null {
+  if (!href) return null;
+  try {
+    const resolved = new URL(href, pageUrl);
+    if (resolved.pathname === "/" && !resolved.search) return null;
+    return canonicalizeUrl(resolved.href);
+  } catch {
+    return null;
+  }
+}
+
+const CANONICAL_BACKFILL_BATCH = 500;
+
+// Fill canonical_url for articles stored before canonicalization existed
+export async function backfillCanonicalUrls(): Promise<number> {
+  let updated = 0;
+  let afterId: string | undefined;
+
+  for (;;) {
+    const batch = await storage.getArticlesWithoutCanonicalUrl(CANONICAL_BACKFILL_BATCH, afterId);
+    if (batch.length === 0) break;
+
+    for (const article of batch) {
+      // False when another row already owns this canonical URL; the row keeps a null canonical_url
+      if (await storage.setArticleCanonicalUrl(article.id, canonicalizeUrl(article.url))) {
+        updated++;
+      }
+    }
+    afterId = batch[batch.length - 1].id;
+  }
+
+  return updated;
+}
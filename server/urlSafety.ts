@@ -0,0 +1,106 @@
+import dns from "dns";
+import net from "net";
+import type { AxiosRequestConfig } from "axios";
+
+/*
+ * Outbound URL safety for user-supplied URLs (custom feeds)
+ * Only http(s) URLs whose host resolves to public addresses may be fetched, so
+ * a feed URL can't make the server reach loopback, the private network, link-local
+ * or cloud metadata endpoints. assertPublicUrl checks a URL up front (when a feed
+ * is saved); publicOnlyRequestConfig is passed to axios so the address actually connected
+ * to is checked again at fetch time, redirects included, which a DNS rebind can't dodge.
+ */
+
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // Link-local, incl. 169.254.169.254 metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // Benchmarking
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved, incl. broadcast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7], // Unique local, incl. fd00:ec2::254 metadata
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPublicAddress(mapped[1]);
+  return !blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// axios `lookup`: resolves like dns.lookup but fails for non-public addresses
+function publicOnlyLookup(
+  hostname: string,
+  options: object,
+  callback: (error: Error | null, addresses: Array<{ address: string; family: 4 | 6 }>) => void,
+): void {
+  dns.lookup(hostname, { all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (addresses.length === 0 || !addresses.every((entry) => isPublicAddress(entry.address))) {
+      return callback(new Error(`Refusing to connect to a non-public address for ${hostname}`), []);
+    }
+    callback(null, addresses.map((entry) => ({ address: entry.address, family: entry.family === 6 ? 6 : 4 })));
+  });
+}
+
+// Redirect targets must be http(s); IP literals skip the lookup, so check them here
+function checkRedirect(options: Record<string, any>): void {
+  const hostname = String(options.hostname || "").replace(/^\[|\]$/g, "");
+  if (options.protocol !== "http:" && options.protocol !== "https:") {
+    throw new Error("Refusing to follow a redirect to a non-http(s) URL");
+  }
+  if (net.isIP(hostname) && !isPublicAddress(hostname)) {
+    throw new Error(`Refusing to follow a redirect to non-public address ${hostname}`);
+  }
+}
+
+// Spread into axios request configs for user-supplied URLs
+export const publicOnlyRequestConfig: Pick<AxiosRequestConfig, "lookup" | "beforeRedirect"> = {
+  lookup: publicOnlyLookup,
+  beforeRedirect: checkRedirect,
+};
+
+/**
+ * Reject URLs that aren't http(s) or whose host resolves to a non-public address
+ * Throws with a message suitable for the API response
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error("Invalid URL");
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error("Only http and https URLs are allowed");
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, ""); // IPv6 literals come bracketed
+  const addresses = net.isIP(hostname)
+    ? [hostname]
+    : (await dns.promises.lookup(hostname, { all: true }).catch(() => [])).map((entry) => entry.address);
+  if (addresses.length === 0) {
+    throw new Error("Could not resolve the URL's host");
+  }
+  if (!addresses.every(isPublicAddress)) {
+    throw new Error("URLs pointing to private or local addresses are not allowed");
+  }
+}
@@ -1,8 +1,10 @@
 import { sql } from 'drizzle-orm';
 import {
+  customType,
   index,
   integer,
   jsonb,
+  real,
   pgTable,
   text,
   timestamp,
@@ -68,29 +70,204 @@ export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({
 export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
 export type Subscription = typeof subscriptions.$inferSelect;
 
+// pgvector column without a fixed size: providers differ (see articles.embeddingDimensions)
+const vector = customType<{ data: number[]; driverData: string }>({
+  dataType: () => "vector",
+  toDriver: (value) => JSON.stringify(value),
+  fromDriver: (value) => JSON.parse(value),
+});
+
+// Full-text search document (see server/textSearch.ts for the Korean bigram tokenization)
+const tsvector = customType<{ data: string }>({
+  dataType: () => "tsvector",
+});
+
+// Embedding sizes with an HNSW index (text-embedding-3-small/hashing, local MiniLM)
+export const INDEXED_EMBEDDING_DIMENSIONS = [1536, 384] as const;
+
 // News articles (cached for deduplication and display)
 export const articles = pgTable("articles", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   title: text("title").notNull(),
   description: text("description"),
-  url: text("url").notNull().unique(),
+  url: text("url").notNull().unique(), // As delivered by the source
+  canonicalUrl: text("canonical_url"), // Deduplication key (see server/urlCanonicalizer.ts)
   imageUrl: text("image_url"),
   source: varchar("source").notNull(), // e.g., "Naver", "Bing"
+  publisher: varchar("publisher"), // Press outlet that wrote the story, e.g., "연합뉴스" (see server/publishers.ts)
   publishedAt: timestamp("published_at").notNull(),
   content: text("content"), // Full text content if available
   category: varchar("category"), // tech, business, sports, etc.
-  embedding: jsonb("embedding"), // OpenAI embedding vector for semantic similarity
+  embedding: vector("embedding_vector"), // Embedding for semantic similarity (pgvector, see server/embeddingService.ts)
+  embeddingProvider: varchar("embedding_provider"), // e.g., "openai", "local", "hashing"
+  embeddingModel: varchar("embedding_model"), // e.g., "text-embedding-3-small"
+  embeddingDimensions: integer("embedding_dimensions"),
+  legacyEmbedding: jsonb("embedding"), // Pre-pgvector jsonb storage, copied into embedding_vector on startup
+  clusterId: varchar("cluster_id"), // Story cluster (see server/storyClusters.ts)
+  searchVector: tsvector("search_vector"), // Title (weight A), description (B), content (C); set by storage
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("articles_search_vector_gin_idx").using("gin", table.searchVector),
+  uniqueIndex("articles_canonical_url_unique_idx").on(table.canonicalUrl),
+  index("articles_cluster_id_idx").on(table.clusterId),
+  // One partial HNSW index per size: pgvector can only index a fixed dimension
+  ...INDEXED_EMBEDDING_DIMENSIONS.map((dimensions) =>
+    index(`articles_embedding_${dimensions}_hnsw_idx`)
+      .using("hnsw", sql`(${sql.identifier("embedding_vector")}::vector(${sql.raw(String(dimensions))})) vector_cosine_ops`)
+      .where(sql`${table.embeddingDimensions} = ${sql.raw(String(dimensions))}`)
+  ),
+]);
 
-export const insertArticleSchema = createInsertSchema(articles).omit({
+export const insertArticleSchema = createInsertSchema(articles, {
+  embedding: z.array(z.number()).nullish(),
+}).omit({
   id: true,
+  legacyEmbedding: true,
+  clusterId: true,
+  searchVector: true,
   createdAt: true,
 });
 
 export type InsertArticle = z.infer<typeof insertArticleSchema>;
 export type Article = typeof articles.$inferSelect;
 
+// Article returned by a nearest-neighbour query, with cosine similarity to the query vector
+export type SimilarArticle = Article & { similarity: number };
+
+// Why an incoming article was treated as a copy of a stored one
+export const duplicateReasons = ["title", "url", "embedding"] as const;
+export type DuplicateReason = typeof duplicateReasons[number];
+
+// Which copy deduplication keeps when two articles are the same story
+export const dedupKeepRules = ["newest", "earliest", "preferred_source", "longest_content"] as const;
+export type DedupKeepRule = typeof dedupKeepRules[number];
+
+// Deduplication settings (deployment defaults from env, per-user overrides in userPreferences.dedupPolicy)
+export const dedupPolicySchema = z.object({
+  similarityThreshold: z.number().min(0.5).max(1), // Cosine similarity at which two articles are the same story
+  titlePrefixLength: z.number().int().min(10).max(200), // Normalized title characters compared
+  keep: z.enum(dedupKeepRules),
+  preferredSources: z.array(z.string()), // Source ids, most preferred first (keep: "preferred_source")
+});
+
+export type DedupPolicy = z.infer<typeof dedupPolicySchema>;
+
+// Incoming articles merged into a stored article by deduplication (the copy itself is not stored in articles)
+export const articleDuplicates = pgTable("article_duplicates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  articleId: varchar("article_id").notNull().references(() => articles.id, { onDelete: "cascade" }), // Stored copy it was merged into
+  url: text("url").notNull(),
+  title: text("title").notNull(),
+  source: varchar("source").notNull(),
+  publisher: varchar("publisher"),
+  publishedAt: timestamp("published_at").notNull(),
+  reason: varchar("reason").notNull(), // DuplicateReason
+  similarity: real("similarity"), // Cosine similarity for "embedding" matches
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("article_duplicates_article_url_unique_idx").on(table.articleId, table.url),
+]);
+
+export type InsertArticleDuplicate = typeof articleDuplicates.$inferInsert;
+export type ArticleDuplicate = typeof articleDuplicates.$inferSelect;
+
+// Stories: stored articles (and their recorded duplicates) about the same event across sources
+export const storyClusters = pgTable("story_clusters", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  headline: text("headline").notNull(), // Title of the representative (earliest) article
+  representativeArticleId: varchar("representative_article_id").notNull(),
+  articleCount: integer("article_count").default(1).notNull(), // Stored articles + recorded duplicates
+  firstSeenAt: timestamp("first_seen_at").notNull(), // Earliest publishedAt in the story
+  lastUpdatedAt: timestamp("last_updated_at").notNull(), // Latest publishedAt in the story
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("story_clusters_last_updated_at_idx").on(table.lastUpdatedAt),
+]);
+
+export type StoryCluster = typeof storyClusters.$inferSelect;
+
+// Keywords the background crawler keeps fresh (recent searches; subscriptions are added at crawl time)
+export const searchTerms = pgTable("search_terms", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  keyword: text("keyword").notNull().unique(), // Normalized: trimmed, lowercase
+  searchCount: integer("search_count").default(1).notNull(),
+  lastSearchedAt: timestamp("last_searched_at").defaultNow().notNull(),
+  lastCrawledAt: timestamp("last_crawled_at"), // null = never fetched from the live sources
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type SearchTerm = typeof searchTerms.$inferSelect;
+
+// Cached raw source responses (optional persistent store for the news cache, see server/newsCache.ts)
+export const sourceCache = pgTable("source_cache", {
+  key: text("key").primaryKey(), // sourceId|keyword|startDate|endDate|sort
+  sourceId: varchar("source_id").notNull(),
+  articles: jsonb("articles").notNull(), // InsertArticle[] as returned by the source
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("source_cache_expires_at_idx").on(table.expiresAt),
+]);
+
+export type SourceCacheEntry = typeof sourceCache.$inferSelect;
+
+// Requests made to each metered source per UTC day (see server/sourceQuota.ts)
+export const sourceQuotaUsage = pgTable("source_quota_usage", {
+  sourceId: varchar("source_id").notNull(),
+  day: varchar("day", { length: 10 }).notNull(), // YYYY-MM-DD (UTC)
+  requestCount: integer("request_count").default(0).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("source_quota_usage_source_day_unique_idx").on(table.sourceId, table.day),
+]);
+
+export type SourceQuotaUsage = typeof sourceQuotaUsage.$inferSelect;
+
+export const embeddingJobStatuses = ["running", "completed", "cancelled", "failed"] as const;
+export type EmbeddingJobStatus = typeof embeddingJobStatuses[number];
+
+// Runs of the embedding backfill (see server/embeddingBackfill.ts); the cursor lets an interrupted run resume
+export const embeddingJobs = pgTable("embedding_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  status: varchar("status").$type<EmbeddingJobStatus>().notNull(),
+  provider: varchar("provider").notNull(), // Target embedding space; rows embedded elsewhere are outdated
+  model: varchar("model").notNull(),
+  cursor: varchar("cursor"), // Last article id processed (articles are walked in id order)
+  total: integer("total").default(0).notNull(), // Articles needing an embedding when the run started
+  processed: integer("processed").default(0).notNull(),
+  failed: integer("failed").default(0).notNull(),
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(), // Heartbeat; a stale running job is resumable
+  finishedAt: timestamp("finished_at"),
+});
+
+export type InsertEmbeddingJob = typeof embeddingJobs.$inferInsert;
+export type EmbeddingJob = typeof embeddingJobs.$inferSelect;
+
+// Query and filters a search session pages through (dates as ISO strings)
+export interface SearchSessionParams {
+  keyword: string;
+  startDate?: string;
+  endDate?: string;
+  source: string;
+  publishers: string[];
+  sort: NewsSortMode;
+}
+
+// Result snapshots behind /api/news/search cursors (see server/searchSessions.ts)
+export const searchSessions = pgTable("search_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  params: jsonb("params").$type<SearchSessionParams>().notNull(),
+  snapshotAt: timestamp("snapshot_at").defaultNow().notNull(), // Articles stored later are left out of the session
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => [
+  index("search_sessions_expires_at_idx").on(table.expiresAt),
+]);
+
+export type InsertSearchSession = typeof searchSessions.$inferInsert;
+export type SearchSession = typeof searchSessions.$inferSelect;
+
 // Email delivery logs
 export const emailLogs = pgTable("email_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -116,8 +293,10 @@ export const userPreferences = pgTable("user_preferences", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
   favoriteSources: text("favorite_sources").array().default(sql`ARRAY[]::text[]`), // ["newsapi", "naver", "bing"]
+  favoritePublishers: text("favorite_publishers").array().default(sql`ARRAY[]::text[]`), // ["연합뉴스", "한겨레", ...]
   favoriteCategories: text("favorite_categories").array().default(sql`ARRAY[]::text[]`), // ["technology", "business", ...]
   language: varchar("language").default("ko"), // "ko", "en"
+  dedupPolicy: jsonb("dedup_policy").$type<Partial<DedupPolicy>>(), // Overrides the deployment dedup policy for this user's results
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -129,7 +308,9 @@ export const userPreferencesRelations = relations(userPreferences, ({ one }) =>
   }),
 }));
 
-export const insertUserPreferencesSchema = createInsertSchema(userPreferences).omit({
+export const insertUserPreferencesSchema = createInsertSchema(userPreferences, {
+  dedupPolicy: dedupPolicySchema.partial().nullish(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -138,6 +319,35 @@ export const insertUserPreferencesSchema = createInsertSchema(userPreferences).o
 export type InsertUserPreferences = z.infer<typeof insertUserPreferencesSchema>;
 export type UserPreferences = typeof userPreferences.$inferSelect;
 
+// User-defined RSS/Atom feeds included in that user's searches and email digests
+export const userFeeds = pgTable("user_feeds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  title: text("title"), // Channel title captured when the feed was validated
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("user_feeds_user_id_idx").on(table.userId),
+  uniqueIndex("user_feeds_user_url_unique_idx").on(table.userId, table.url),
+]);
+
+export const userFeedsRelations = relations(userFeeds, ({ one }) => ({
+  user: one(users, {
+    fields: [userFeeds.userId],
+    references: [users.id],
+  }),
+}));
+
+export const insertUserFeedSchema = createInsertSchema(userFeeds, {
+  url: (schema) => schema.url(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertUserFeed = z.infer<typeof insertUserFeedSchema>;
+export type UserFeed = typeof userFeeds.$inferSelect;
+
 // Article bookmarks for saving interesting articles
 export const bookmarks = pgTable("bookmarks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -170,11 +380,146 @@ export type InsertBookmark = z.infer<typeof insertBookmarkSchema>;
 export type Bookmark = typeof bookmarks.$inferSelect;
 
 // TypeScript interfaces for API responses
+export const newsSortModes = ["date", "sim"] as const;
+export type NewsSortMode = typeof newsSortModes[number]; // "date" = newest first, "sim" = relevance
+
 export interface NewsSearchParams {
   keyword: string;
   startDate?: string; // YYYY-MM-DD
   endDate?: string; // YYYY-MM-DD
-  source?: string; // "naver" | "bing" | "all"
+  source?: string; // Registered NewsSource id or "all"
+  sort?: NewsSortMode;
+  publisher?: string; // Comma-separated outlet names, e.g. "연합뉴스,한겨레"
+}
+
+// Capabilities advertised by a registered news source
+export interface NewsSourceCapabilities {
+  dateRange: boolean; // Honours startDate/endDate filters
+  languages: string[]; // ISO 639-1 codes, e.g. ["ko"], ["en"]
+}
+
+// Public description of a news source returned by /api/sources
+export interface NewsSourceInfo {
+  id: string;
+  name: string;
+  capabilities: NewsSourceCapabilities;
+  enabled: boolean; // false when required credentials are missing
+}
+
+export type SourceFailureReason = "rate_limited" | "auth" | "timeout" | "error";
+
+// Per-source health returned by /api/sources/health
+export interface SourceHealth {
+  id: string;
+  name: string;
+  enabled: boolean;
+  status: "healthy" | "degraded" | "down" | "disabled"; // down = circuit breaker open
+  successRate: number | null; // 0-1 over recent calls, null before the first call
+  totalCalls: number;
+  rateLimitedCount: number; // HTTP 429 responses
+  lastLatencyMs: number | null;
+  averageLatencyMs: number | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  lastErrorReason: SourceFailureReason | null;
+  lastErrorAt: string | null;
+  consecutiveFailures: number;
+  circuitOpenUntil: string | null;
+}
+
+// One deduplication decision, returned in the search response's debug field
+export interface DedupDecision {
+  stage: "ingest" | "results"; // Archive ingestion (deployment policy) or the user's result page (user policy)
+  mergedUrl: string; // The copy that was dropped
+  mergedTitle: string;
+  mergedSource: string;
+  keptId: string | null; // The article it was merged into (null = the kept copy failed to persist)
+  keptUrl: string | null;
+  reason: DuplicateReason;
+  similarity: number | null;
+}
+
+// Search result article with the size of its story cluster ("N sources covering this").
+// transient = never stored (custom feed and demo items): it can't be bookmarked and has no related articles
+export type ArticleWithStory = Article & { storyArticleCount?: number; transient?: boolean };
+
+// Part of a highlighted title or snippet; match = contains a search term
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHighlight {
+  title: TextSegment[];
+  snippet: TextSegment[]; // Description or body excerpt around the first match
+}
+
+// Keyword search hit with highlighted title and snippet
+export type SearchResultArticle = ArticleWithStory & { highlight?: SearchHighlight };
+
+// Semantic search hit: vector similarity to the query and the blended ranking score
+export type SemanticSearchArticle = ArticleWithStory & { similarity: number; score: number };
+
+// One outlet's copy of a story returned by /api/stories/:id (articleId is null for recorded duplicates)
+export interface StoryCoverage {
+  articleId: string | null;
+  title: string;
+  url: string;
+  source: string;
+  publisher: string | null;
+  publishedAt: string | Date;
+}
+
+export interface StoryDetail extends StoryCluster {
+  coverage: StoryCoverage[];
+}
+
+// Coverage related to an article: "story" = same story cluster, "similar" = embedding neighbour
+export interface RelatedArticle extends StoryCoverage {
+  relation: "story" | "similar";
+  similarity: number | null; // Cosine similarity for "similar"
+}
+
+// Returned by /api/articles/:id/related; related is ordered by publishedAt (oldest first)
+export interface RelatedArticles {
+  articleId: string;
+  story: StoryCluster | null;
+  related: RelatedArticle[];
+}
+
+// Source missing from a search response ("partial results")
+export interface UnavailableSource {
+  id: string;
+  name: string;
+  reason: SourceFailureReason | "circuit_open" | "quota_exhausted";
+}
+
+// Who is asking for a live source call, highest priority first.
+// Lower priorities stop earlier so scheduled digests keep budget for the day.
+export const requestPriorities = ["digest", "search", "monitor"] as const;
+export type RequestPriority = typeof requestPriorities[number];
+
+// Per-source daily request budget returned by /api/admin/quotas
+export interface SourceQuotaStatus {
+  id: string;
+  name: string;
+  enabled: boolean;
+  dailyLimit: number | null; // null = unmetered
+  used: number;
+  remaining: number | null;
+  resetsAt: string; // Next UTC midnight
+  // Priorities that may still make live calls today
+  allowedPriorities: RequestPriority[];
+}
+
+// News cache hit/miss counters returned by /api/cache/stats
+export interface CacheStats {
+  store: "memory" | "postgres";
+  hits: number;
+  misses: number;
+  bypassed: number;
+  hitRate: number | null;
+  bySource: Record<string, { hits: number; misses: number }>;
 }
 
 export interface TrendData {